@@ -0,0 +1,212 @@
+/**
+ * 文件过滤策略
+ * 客户端通过 X-Url2file-File-Policy 请求头传入策略（JSON的Base64），代理在读取响应时执行：
+ * 按MIME类别限制文件大小（流式读取时超出上限立即中止），按MIME类型和扩展名过滤文件。
+ * 代理只根据上游声明的类型判断，类型未知的文件交给客户端识别文件内容后再判断
+ *
+ * 环境变量：
+ * - PROXY_MAX_FILE_SIZE_MB: 代理允许的单个文件大小上限（MB），默认20，客户端策略不能超过该值
+ */
+
+export const FILE_POLICY_PROXY_HEADER = 'x-url2file-file-policy';
+
+const DEFAULT_MAX_FILE_SIZE_MB = 20;
+
+// 以下分类规则与 src/utils/filePolicy.ts 保持一致
+const DOCUMENT_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.ms-excel',
+  'application/vnd.ms-powerpoint',
+  'application/rtf',
+  'application/json',
+  'application/xml',
+];
+
+const ARCHIVE_TYPES = [
+  'application/zip',
+  'application/x-zip-compressed',
+  'application/gzip',
+  'application/x-gzip',
+  'application/x-tar',
+  'application/x-7z-compressed',
+  'application/vnd.rar',
+  'application/x-rar-compressed',
+];
+
+const CATEGORY_EXTENSIONS = {
+  image: ['jpg', 'jpeg', 'png', 'gif', 'webp', 'bmp', 'svg', 'tif', 'tiff', 'ico', 'heic', 'avif'],
+  video: ['mp4', 'mov', 'avi', 'mkv', 'webm', 'flv', 'wmv', 'm4v'],
+  audio: ['mp3', 'wav', 'aac', 'flac', 'ogg', 'm4a', 'wma'],
+  document: ['pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'txt', 'csv', 'rtf', 'md', 'json', 'xml'],
+  archive: ['zip', 'gz', 'tgz', 'tar', '7z', 'rar'],
+};
+
+/**
+ * 文件被过滤策略拒绝时抛出的错误
+ */
+export class FilePolicyError extends Error {
+  constructor(code, message, status, details = {}) {
+    super(message);
+    this.name = 'FilePolicyError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * 代理允许的单个文件大小上限（字节）
+ * @returns {number}
+ */
+function getServerMaxSize() {
+  const value = Number(process.env.PROXY_MAX_FILE_SIZE_MB);
+  return (value > 0 ? value : DEFAULT_MAX_FILE_SIZE_MB) * 1024 * 1024;
+}
+
+/**
+ * 将列表规范化为小写字符串数组
+ * @param {unknown} value
+ * @returns {string[]}
+ */
+function toList(value) {
+  return Array.isArray(value) ? value.filter(item => typeof item === 'string').map(item => item.toLowerCase()) : [];
+}
+
+/**
+ * 解码客户端传入的策略；未传入时只执行代理自身的大小上限
+ * @param {string | string[] | undefined} value 请求头的值
+ * @returns {{ defaultMaxSize: number, maxSize: Record<string, number>, allowedMimeTypes: string[], deniedMimeTypes: string[], allowedExtensions: string[], deniedExtensions: string[] }}
+ * @throws {FilePolicyError}
+ */
+export function decodeFilePolicy(value) {
+  let parsed = {};
+  if (value) {
+    try {
+      parsed = JSON.parse(Buffer.from(Array.isArray(value) ? value[0] : value, 'base64').toString('utf8')) || {};
+    } catch {
+      throw new FilePolicyError('INVALID_FILE_POLICY', 'Invalid file policy', 400);
+    }
+  }
+
+  const serverMaxSize = getServerMaxSize();
+  const clamp = size => (typeof size === 'number' && size > 0 ? Math.min(size, serverMaxSize) : undefined);
+  const maxSize = {};
+  if (parsed.maxSize && typeof parsed.maxSize === 'object') {
+    for (const [category, size] of Object.entries(parsed.maxSize)) {
+      const limit = clamp(size);
+      if (limit) maxSize[category] = limit;
+    }
+  }
+
+  return {
+    defaultMaxSize: clamp(parsed.defaultMaxSize) || serverMaxSize,
+    maxSize,
+    allowedMimeTypes: toList(parsed.allowedMimeTypes),
+    deniedMimeTypes: toList(parsed.deniedMimeTypes),
+    allowedExtensions: toList(parsed.allowedExtensions),
+    deniedExtensions: toList(parsed.deniedExtensions),
+  };
+}
+
+/**
+ * 从Content-Disposition或URL路径中获取扩展名
+ * @param {string} url
+ * @param {string | null} contentDisposition
+ * @returns {string} 没有扩展名时为空字符串
+ */
+function getExtension(url, contentDisposition) {
+  const fileName = contentDisposition?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i)?.[1]
+    || new URL(url).pathname.split('/').pop()
+    || '';
+  return fileName.match(/\.([a-z0-9]{1,8})$/i)?.[1].toLowerCase() || '';
+}
+
+/**
+ * 判断文件类别
+ * @param {string} mimeType 规范化后的MIME类型
+ * @param {string} extension
+ * @returns {string}
+ */
+function getFileCategory(mimeType, extension) {
+  if (mimeType) {
+    const [major] = mimeType.split('/');
+    if (major === 'image' || major === 'video' || major === 'audio') return major;
+    if (major === 'text' || DOCUMENT_TYPES.includes(mimeType) || mimeType.startsWith('application/vnd.openxmlformats-officedocument.')) {
+      return 'document';
+    }
+    if (ARCHIVE_TYPES.includes(mimeType)) return 'archive';
+  }
+  return Object.keys(CATEGORY_EXTENSIONS).find(name => CATEGORY_EXTENSIONS[name].includes(extension)) || 'other';
+}
+
+/**
+ * 判断MIME类型是否匹配列表中的某一项（支持 image/* 形式）
+ * @param {string} mimeType
+ * @param {string[]} patterns
+ * @returns {boolean}
+ */
+function matchesMimeType(mimeType, patterns) {
+  return patterns.some(pattern => (pattern.endsWith('/*') ? mimeType.startsWith(pattern.slice(0, -1)) : mimeType === pattern));
+}
+
+/**
+ * 根据上游响应头检查文件类型和声明的大小，返回该文件允许的最大字节数
+ * @param {ReturnType<typeof decodeFilePolicy>} policy
+ * @param {string} url 最终的目标URL
+ * @param {Response} response 上游响应
+ * @param {number | null} [declaredSize] 文件大小，默认取响应的Content-Length（探测时使用Content-Range中的总大小）
+ * @returns {number} 大小上限（字节）
+ * @throws {FilePolicyError}
+ */
+export function checkResponseAgainstPolicy(policy, url, response, declaredSize = Number(response.headers.get('content-length'))) {
+  const rawType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+  const mimeType = rawType === 'application/octet-stream' ? '' : rawType;
+  const extension = getExtension(url, response.headers.get('content-disposition'));
+
+  // 只对已知的类型做白名单判断，类型未知时交给客户端处理
+  const denied = (mimeType && matchesMimeType(mimeType, policy.deniedMimeTypes))
+    || (extension && policy.deniedExtensions.includes(extension));
+  const notAllowed = (mimeType && policy.allowedMimeTypes.length > 0 && !matchesMimeType(mimeType, policy.allowedMimeTypes))
+    || (extension && policy.allowedExtensions.length > 0 && !policy.allowedExtensions.includes(extension));
+  if (denied || notAllowed) {
+    throw new FilePolicyError('FILE_TYPE_NOT_ALLOWED', `File type is not allowed: ${mimeType || extension}`, 415, {
+      mimeType,
+      extension,
+    });
+  }
+
+  const category = getFileCategory(mimeType, extension);
+  const limit = policy.maxSize[category] || policy.defaultMaxSize;
+  if (declaredSize && declaredSize > limit) {
+    throw new FilePolicyError('FILE_TOO_LARGE', `File size exceeds ${limit} bytes`, 413, { category, limit, size: declaredSize });
+  }
+  return limit;
+}
+
+/**
+ * 流式读取响应体，累计字节数超过上限时立即中止
+ * @param {Response} response 上游响应
+ * @param {number} limit 大小上限（字节）
+ * @returns {Promise<Buffer>}
+ * @throws {FilePolicyError}
+ */
+export async function readBodyWithLimit(response, limit) {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+  const reader = response.body.getReader();
+  const chunks = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > limit) {
+      await reader.cancel();
+      throw new FilePolicyError('FILE_TOO_LARGE', `File size exceeds ${limit} bytes`, 413, { limit });
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
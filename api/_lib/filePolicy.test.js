@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { checkResponseAgainstPolicy, decodeFilePolicy, readBodyWithLimit } from './filePolicy.js';
+
+const MB = 1024 * 1024;
+
+/**
+ * 编码策略请求头
+ * @param {object} policy
+ */
+function encode(policy) {
+  return Buffer.from(JSON.stringify(policy)).toString('base64');
+}
+
+/**
+ * 创建只有响应头的上游响应
+ * @param {Record<string, string>} headers
+ */
+function createResponse(headers) {
+  return new Response(null, { status: 200, headers });
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('decodeFilePolicy', () => {
+  it('uses the server limit when no policy is sent', () => {
+    expect(decodeFilePolicy(undefined)).toMatchObject({ defaultMaxSize: 20 * MB, maxSize: {}, allowedMimeTypes: [] });
+  });
+
+  it('clamps per-category sizes to the server limit', () => {
+    vi.stubEnv('PROXY_MAX_FILE_SIZE_MB', '50');
+
+    const policy = decodeFilePolicy(encode({
+      defaultMaxSize: 100 * MB,
+      maxSize: { image: 5 * MB, video: 500 * MB, audio: -1 },
+    }));
+
+    expect(policy.defaultMaxSize).toBe(50 * MB);
+    expect(policy.maxSize).toEqual({ image: 5 * MB, video: 50 * MB });
+  });
+
+  it('lowercases lists and drops values that are not strings', () => {
+    const policy = decodeFilePolicy(encode({ allowedMimeTypes: ['Image/*', 3], deniedExtensions: ['EXE'] }));
+
+    expect(policy.allowedMimeTypes).toEqual(['image/*']);
+    expect(policy.deniedExtensions).toEqual(['exe']);
+  });
+
+  it('rejects a malformed header', () => {
+    expect(() => decodeFilePolicy('not base64 json')).toThrow(expect.objectContaining({ code: 'INVALID_FILE_POLICY', status: 400 }));
+  });
+});
+
+describe('checkResponseAgainstPolicy', () => {
+  it('returns the limit of the file category', () => {
+    const policy = decodeFilePolicy(encode({ defaultMaxSize: 10 * MB, maxSize: { image: 2 * MB } }));
+
+    expect(checkResponseAgainstPolicy(policy, 'https://a.com/x.png', createResponse({ 'content-type': 'image/png' }))).toBe(2 * MB);
+    expect(checkResponseAgainstPolicy(policy, 'https://a.com/x.pdf', createResponse({ 'content-type': 'application/pdf' }))).toBe(10 * MB);
+  });
+
+  it('rejects a declared size over the category limit', () => {
+    const policy = decodeFilePolicy(encode({ maxSize: { image: 1 * MB } }));
+    const response = createResponse({ 'content-type': 'image/jpeg', 'content-length': String(2 * MB) });
+
+    expect(() => checkResponseAgainstPolicy(policy, 'https://a.com/x.jpg', response))
+      .toThrow(expect.objectContaining({ code: 'FILE_TOO_LARGE', status: 413 }));
+  });
+
+  it('applies MIME allow and deny lists, with the deny list taking priority', () => {
+    const policy = decodeFilePolicy(encode({ allowedMimeTypes: ['image/*'], deniedMimeTypes: ['image/gif'] }));
+    const check = type => () => checkResponseAgainstPolicy(policy, 'https://a.com/file', createResponse({ 'content-type': type }));
+
+    expect(check('image/png')).not.toThrow();
+    expect(check('image/gif')).toThrow(expect.objectContaining({ code: 'FILE_TYPE_NOT_ALLOWED', status: 415 }));
+    expect(check('application/pdf')).toThrow(expect.objectContaining({ code: 'FILE_TYPE_NOT_ALLOWED' }));
+  });
+
+  it('applies extension lists from the URL or Content-Disposition', () => {
+    const policy = decodeFilePolicy(encode({ allowedExtensions: ['pdf', 'exe'], deniedExtensions: ['exe'] }));
+    const check = (url, headers = {}) => () => checkResponseAgainstPolicy(policy, url, createResponse(headers));
+
+    expect(check('https://a.com/report.pdf')).not.toThrow();
+    expect(check('https://a.com/setup.exe')).toThrow(expect.objectContaining({ code: 'FILE_TYPE_NOT_ALLOWED' }));
+    expect(check('https://a.com/download', { 'content-disposition': 'attachment; filename="a.zip"' }))
+      .toThrow(expect.objectContaining({ details: expect.objectContaining({ extension: 'zip' }) }));
+  });
+
+  it('leaves files of unknown type to the client', () => {
+    const policy = decodeFilePolicy(encode({ allowedMimeTypes: ['image/*'] }));
+    const response = createResponse({ 'content-type': 'application/octet-stream' });
+
+    expect(() => checkResponseAgainstPolicy(policy, 'https://a.com/download', response)).not.toThrow();
+  });
+});
+
+describe('readBodyWithLimit', () => {
+  it('reads the whole body within the limit', async () => {
+    const buffer = await readBodyWithLimit(new Response('hello'), 5);
+
+    expect(buffer.toString()).toBe('hello');
+  });
+
+  it('aborts the stream as soon as the limit is exceeded', async () => {
+    let pulled = 0;
+    let cancelled = false;
+    const body = new ReadableStream({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(new Uint8Array(1024));
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+
+    await expect(readBodyWithLimit(new Response(body), 3000))
+      .rejects.toMatchObject({ code: 'FILE_TOO_LARGE', details: { limit: 3000 } });
+    expect(cancelled).toBe(true);
+    expect(pulled).toBeLessThan(10);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * 自定义请求头规则
+ * 客户端通过 X-Url2file-Header-Rules 请求头传入规则（UTF-8 JSON 的 Base64），
+ * 代理在每次请求目标地址（包括重定向后的地址）时只附加与该主机匹配的请求头
+ */
+
+export const HEADER_RULES_PROXY_HEADER = 'x-url2file-header-rules';
+
+// 不允许自定义的请求头，与 src/utils/headerRules.ts 保持一致
+const RESERVED_HEADER_NAMES = [
+  'host',
+  'connection',
+  'content-length',
+  'transfer-encoding',
+  'upgrade',
+  'keep-alive',
+  'te',
+  'trailer',
+  'proxy-authorization',
+];
+
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/**
+ * 请求头规则无法解析时抛出的错误
+ */
+export class HeaderRulesError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'HeaderRulesError';
+    this.code = 'INVALID_HEADER_RULES';
+    this.status = 400;
+  }
+}
+
+/**
+ * 解码客户端传入的规则，忽略保留的请求头
+ * @param {string | string[] | undefined} value 请求头的值
+ * @returns {{ hostPattern: string, headers: Record<string, string> }[]}
+ * @throws {HeaderRulesError}
+ */
+export function decodeHeaderRules(value) {
+  if (!value) {
+    return [];
+  }
+  let parsed;
+  try {
+    parsed = JSON.parse(Buffer.from(Array.isArray(value) ? value[0] : value, 'base64').toString('utf8'));
+  } catch {
+    throw new HeaderRulesError('Invalid header rules');
+  }
+  if (!Array.isArray(parsed)) {
+    throw new HeaderRulesError('Invalid header rules');
+  }
+
+  return parsed
+    .filter(rule => rule && typeof rule.hostPattern === 'string' && rule.headers && typeof rule.headers === 'object')
+    .map(rule => ({
+      hostPattern: rule.hostPattern.toLowerCase(),
+      headers: Object.fromEntries(
+        Object.entries(rule.headers).filter(([name, headerValue]) =>
+          HEADER_NAME_PATTERN.test(name)
+          && !RESERVED_HEADER_NAMES.includes(name.toLowerCase())
+          && typeof headerValue === 'string'
+        )
+      ),
+    }));
+}
+
+/**
+ * 判断主机名是否匹配主机模式（example.com 或 *.example.com）
+ * @param {string} hostname
+ * @param {string} hostPattern
+ * @returns {boolean}
+ */
+function matchesHostPattern(hostname, hostPattern) {
+  const host = hostname.toLowerCase();
+  if (hostPattern.startsWith('*.')) {
+    return host.endsWith(hostPattern.slice(1));
+  }
+  return host === hostPattern;
+}
+
+/**
+ * 获取URL匹配的请求头，多条规则匹配时后面的规则优先
+ * @param {{ hostPattern: string, headers: Record<string, string> }[]} rules
+ * @param {string} url
+ * @returns {Record<string, string>}
+ */
+export function getHeadersForUrl(rules, url) {
+  const { hostname } = new URL(url);
+  return rules
+    .filter(rule => matchesHostPattern(hostname, rule.hostPattern))
+    .reduce((headers, rule) => ({ ...headers, ...rule.headers }), {});
+}
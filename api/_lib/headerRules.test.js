@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { decodeHeaderRules, getHeadersForUrl } from './headerRules.js';
+
+/**
+ * 按客户端的方式编码规则
+ * @param {unknown} rules
+ */
+function encode(rules) {
+  return Buffer.from(JSON.stringify(rules)).toString('base64');
+}
+
+describe('decodeHeaderRules', () => {
+  it('returns no rules when the header is missing', () => {
+    expect(decodeHeaderRules(undefined)).toEqual([]);
+  });
+
+  it('drops reserved or malformed headers and invalid rules', () => {
+    const rules = decodeHeaderRules(encode([
+      {
+        hostPattern: 'CDN.example.com',
+        headers: { Authorization: 'Bearer abc', Host: 'internal', 'Transfer-Encoding': 'chunked', 'Bad Name': 'x', 'X-Number': 1 },
+      },
+      { hostPattern: 42, headers: { Authorization: 'x' } },
+      null,
+    ]));
+
+    expect(rules).toEqual([{ hostPattern: 'cdn.example.com', headers: { Authorization: 'Bearer abc' } }]);
+  });
+
+  it.each([
+    ['not base64 json', 'not base64 json'],
+    ['a JSON object instead of a list', encode({ hostPattern: 'a.com' })],
+  ])('rejects %s', (_, value) => {
+    expect(() => decodeHeaderRules(value)).toThrow(expect.objectContaining({ code: 'INVALID_HEADER_RULES', status: 400 }));
+  });
+});
+
+describe('getHeadersForUrl', () => {
+  const rules = decodeHeaderRules(encode([
+    { hostPattern: '*.example.com', headers: { Authorization: 'wildcard' } },
+    { hostPattern: 'cdn.example.com', headers: { Authorization: 'exact', Referer: 'https://example.com/' } },
+  ]));
+
+  it('matches exact hosts and subdomains, with later rules taking priority', () => {
+    expect(getHeadersForUrl(rules, 'https://CDN.example.com/a.png')).toEqual({ Authorization: 'exact', Referer: 'https://example.com/' });
+    expect(getHeadersForUrl(rules, 'https://a.b.example.com/a.png')).toEqual({ Authorization: 'wildcard' });
+  });
+
+  it('does not send headers to other hosts, such as a redirect target', () => {
+    expect(getHeadersForUrl(rules, 'https://example.com/a.png')).toEqual({});
+    expect(getHeadersForUrl(rules, 'https://evilexample.com/a.png')).toEqual({});
+    expect(getHeadersForUrl(rules, 'https://example.com.evil.net/a.png')).toEqual({});
+  });
+});
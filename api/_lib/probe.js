@@ -0,0 +1,62 @@
+/**
+ * 文件探测
+ * 用于预览：通过HEAD请求获取上游文件的类型和大小，不下载文件内容。
+ * 上游不支持HEAD或没有返回Content-Length时，退回只请求第一个字节的GET（Range: bytes=0-0），
+ * 从Content-Range中读取文件总大小
+ */
+
+import { discardBody, fetchWithUrlPolicy } from './urlPolicy.js';
+
+/**
+ * 从Content-Range头中解析文件总大小，例如 "bytes 0-0/12345"
+ * @param {string | null} header Content-Range头
+ * @returns {number | null}
+ */
+function parseContentRangeTotal(header) {
+  const match = header?.match(/\/(\d+)\s*$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * 读取响应声明的Content-Length
+ * @param {Response} response
+ * @returns {number | null}
+ */
+function getContentLength(response) {
+  const value = response.headers.get('content-length');
+  return value && /^\d+$/.test(value) ? Number(value) : null;
+}
+
+/**
+ * 探测目标文件的响应头和大小
+ * @param {string} url 目标URL
+ * @param {Record<string, string>} headers 请求头
+ * @param {(url: string) => Record<string, string>} [getExtraHeaders] 按每次请求的URL返回额外的请求头
+ * @returns {Promise<{ response: Response, size: number | null }>} response 为最后一次请求的响应（响应体已丢弃）
+ * @throws {UrlPolicyError}
+ */
+export async function probeUrl(url, headers, getExtraHeaders) {
+  const headResponse = await fetchWithUrlPolicy(url, { method: 'HEAD', headers }, getExtraHeaders);
+  const headSize = getContentLength(headResponse);
+  if (headResponse.ok && headSize !== null) {
+    await discardBody(headResponse);
+    return { response: headResponse, size: headSize };
+  }
+
+  const rangeResponse = await fetchWithUrlPolicy(url, {
+    method: 'GET',
+    headers: { ...headers, Range: 'bytes=0-0' },
+  }, getExtraHeaders);
+  // 只需要响应头，立即丢弃响应体
+  await discardBody(headResponse);
+  await discardBody(rangeResponse);
+
+  if (!rangeResponse.ok) {
+    // 部分服务器只拒绝Range请求，HEAD成功时仍使用HEAD的结果
+    return headResponse.ok ? { response: headResponse, size: null } : { response: rangeResponse, size: null };
+  }
+  const size = rangeResponse.status === 206
+    ? parseContentRangeTotal(rangeResponse.headers.get('content-range'))
+    : getContentLength(rangeResponse);
+  return { response: rangeResponse, size };
+}
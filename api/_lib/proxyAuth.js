@@ -0,0 +1,101 @@
+/**
+ * 代理请求签名校验
+ * 客户端使用授权码对目标URL、过期时间和请求头规则、文件过滤策略的摘要做HMAC-SHA256签名，防止代理被任意转发流量，
+ * 也防止签名后的链接被配上其他请求头规则或过滤策略重放
+ *
+ * 环境变量：
+ * - PROXY_SIGNING_SECRET: 签名密钥（即各租户在插件中填写的授权码），多个密钥用逗号分隔；
+ *   未配置时不校验签名
+ */
+
+import crypto from 'node:crypto';
+import { HEADER_RULES_PROXY_HEADER } from './headerRules.js';
+import { FILE_POLICY_PROXY_HEADER } from './filePolicy.js';
+
+// 允许的最长签名有效期（秒），防止客户端签发长期有效的链接
+const MAX_SIGNATURE_TTL = 10 * 60;
+
+/**
+ * 签名校验失败时抛出的错误
+ * code 为机器可读的错误码，status 为代理返回的HTTP状态码
+ */
+export class ProxyAuthError extends Error {
+  constructor(code, message, status = 401) {
+    super(message);
+    this.name = 'ProxyAuthError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/**
+ * 读取配置的签名密钥
+ * @returns {string[]}
+ */
+function getSigningSecrets() {
+  return (process.env.PROXY_SIGNING_SECRET || '')
+    .split(',')
+    .map(secret => secret.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 计算请求头规则和文件过滤策略请求头的SHA-256摘要，与 src/utils/proxyAuth.ts 保持一致
+ * @param {import('http').IncomingHttpHeaders} headers 代理收到的请求头
+ * @returns {string} 十六进制摘要
+ */
+function digestProxyHeaders(headers) {
+  const readHeader = name => String(headers[name] ?? '').trim();
+  const content = `${readHeader(HEADER_RULES_PROXY_HEADER)}\n${readHeader(FILE_POLICY_PROXY_HEADER)}`;
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * 计算签名，内容为 `${expires}\n${url}\n${请求头摘要}`，与 src/utils/proxyAuth.ts 保持一致
+ * @param {string} secret 签名密钥
+ * @param {string} url 目标URL
+ * @param {string} expires 过期时间（Unix秒）
+ * @param {string} headersDigest 请求头摘要
+ * @returns {string} 十六进制签名
+ */
+function sign(secret, url, expires, headersDigest) {
+  return crypto.createHmac('sha256', secret).update(`${expires}\n${url}\n${headersDigest}`).digest('hex');
+}
+
+/**
+ * 校验代理请求的签名和过期时间
+ * @param {string} url 目标URL
+ * @param {string | undefined} expires 过期时间（Unix秒）
+ * @param {string | undefined} signature 十六进制签名
+ * @param {import('http').IncomingHttpHeaders} headers 代理收到的请求头，请求头规则和文件过滤策略必须与签名时一致
+ * @throws {ProxyAuthError}
+ */
+export function verifyProxySignature(url, expires, signature, headers = {}) {
+  const secrets = getSigningSecrets();
+  if (secrets.length === 0) {
+    return;
+  }
+
+  if (typeof expires !== 'string' || typeof signature !== 'string' || !expires || !signature) {
+    throw new ProxyAuthError('UNSIGNED_REQUEST', 'Proxy request is not signed');
+  }
+
+  const expiresAt = Number(expires);
+  const now = Math.floor(Date.now() / 1000);
+  if (!Number.isInteger(expiresAt) || expiresAt > now + MAX_SIGNATURE_TTL) {
+    throw new ProxyAuthError('INVALID_EXPIRY', 'Invalid signature expiry');
+  }
+  if (expiresAt < now) {
+    throw new ProxyAuthError('TOKEN_EXPIRED', 'Proxy signature has expired');
+  }
+
+  const received = Buffer.from(signature, 'hex');
+  const headersDigest = digestProxyHeaders(headers);
+  const valid = secrets.some(secret => {
+    const expected = Buffer.from(sign(secret, url, expires, headersDigest), 'hex');
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  });
+  if (!valid) {
+    throw new ProxyAuthError('INVALID_SIGNATURE', 'Invalid proxy signature', 403);
+  }
+}
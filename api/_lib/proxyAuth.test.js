@@ -0,0 +1,86 @@
+import crypto from 'node:crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { verifyProxySignature } from './proxyAuth.js';
+
+const URL = 'https://files.example.com/a.png';
+const HEADERS = { 'x-url2file-header-rules': 'cnVsZXM=', 'x-url2file-file-policy': 'cG9saWN5' };
+const NOW = 1_700_000_000;
+
+/**
+ * 按客户端的规则签名
+ * @param {string} secret 签名密钥
+ * @param {string} url 目标URL
+ * @param {number} expires 过期时间（Unix秒）
+ * @param {Record<string, string>} headers 发送给代理的请求头
+ */
+function sign(secret, url, expires, headers = HEADERS) {
+  const digest = crypto.createHash('sha256')
+    .update(`${headers['x-url2file-header-rules'] || ''}\n${headers['x-url2file-file-policy'] || ''}`)
+    .digest('hex');
+  return crypto.createHmac('sha256', secret).update(`${expires}\n${url}\n${digest}`).digest('hex');
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW * 1000);
+  vi.stubEnv('PROXY_SIGNING_SECRET', 'secret-a');
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe('verifyProxySignature', () => {
+  it('accepts a valid signature', () => {
+    const expires = String(NOW + 60);
+
+    expect(() => verifyProxySignature(URL, expires, sign('secret-a', URL, expires), HEADERS)).not.toThrow();
+  });
+
+  it('does not check signatures when no secret is configured', () => {
+    vi.stubEnv('PROXY_SIGNING_SECRET', '');
+
+    expect(() => verifyProxySignature(URL, undefined, undefined, {})).not.toThrow();
+  });
+
+  it('rejects unsigned requests', () => {
+    expect(() => verifyProxySignature(URL, undefined, undefined, HEADERS))
+      .toThrow(expect.objectContaining({ code: 'UNSIGNED_REQUEST', status: 401 }));
+  });
+
+  it('rejects an expired signature', () => {
+    const expires = String(NOW - 1);
+
+    expect(() => verifyProxySignature(URL, expires, sign('secret-a', URL, expires), HEADERS))
+      .toThrow(expect.objectContaining({ code: 'TOKEN_EXPIRED' }));
+  });
+
+  it('rejects an expiry beyond the maximum signature lifetime', () => {
+    const expires = String(NOW + 10 * 60 + 1);
+
+    expect(() => verifyProxySignature(URL, expires, sign('secret-a', URL, expires), HEADERS))
+      .toThrow(expect.objectContaining({ code: 'INVALID_EXPIRY' }));
+  });
+
+  it.each([
+    ['URL', { url: 'https://files.example.com/b.png' }],
+    ['header rules', { headers: { ...HEADERS, 'x-url2file-header-rules': 'b3RoZXI=' } }],
+    ['file policy', { headers: { ...HEADERS, 'x-url2file-file-policy': undefined } }],
+  ])('rejects a signature when the %s was changed', (_, { url = URL, headers = HEADERS }) => {
+    const expires = String(NOW + 60);
+
+    expect(() => verifyProxySignature(url, expires, sign('secret-a', URL, expires), headers))
+      .toThrow(expect.objectContaining({ code: 'INVALID_SIGNATURE', status: 403 }));
+  });
+
+  it('accepts signatures from any of several comma-separated secrets', () => {
+    vi.stubEnv('PROXY_SIGNING_SECRET', 'secret-old, secret-new');
+    const expires = String(NOW + 60);
+
+    expect(() => verifyProxySignature(URL, expires, sign('secret-old', URL, expires), HEADERS)).not.toThrow();
+    expect(() => verifyProxySignature(URL, expires, sign('secret-new', URL, expires), HEADERS)).not.toThrow();
+    expect(() => verifyProxySignature(URL, expires, sign('secret-a', URL, expires), HEADERS))
+      .toThrow(expect.objectContaining({ code: 'INVALID_SIGNATURE' }));
+  });
+});
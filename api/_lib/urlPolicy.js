@@ -0,0 +1,221 @@
+/**
+ * 代理目标地址校验
+ * 防止代理被用来访问内网地址（SSRF），并支持通过环境变量配置允许和禁止的域名；
+ * 请求时只连接校验过的IP地址，避免DNS在校验后被改为内网地址（DNS重绑定）
+ *
+ * 环境变量（多个域名用逗号分隔，匹配域名本身及其子域名）：
+ * - PROXY_ALLOWED_DOMAINS: 只允许访问这些域名，为空时不限制
+ * - PROXY_DENIED_DOMAINS: 禁止访问这些域名，优先于允许列表
+ */
+
+import dns from 'node:dns';
+import net from 'node:net';
+import { Agent, fetch } from 'undici';
+
+// 最多跟随的重定向次数
+const MAX_REDIRECTS = 5;
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// 回环、链路本地、私有网络以及其他不应从公网代理访问的地址段
+const blockedAddresses = new net.BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address, prefix, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address, prefix, 'ipv6'));
+
+/**
+ * 目标地址被策略拒绝时抛出的错误
+ * code 为机器可读的错误码，status 为代理返回的HTTP状态码
+ */
+export class UrlPolicyError extends Error {
+  constructor(code, message, status = 403) {
+    super(message);
+    this.name = 'UrlPolicyError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/**
+ * 解析逗号分隔的域名列表
+ * @param {string | undefined} value 环境变量值
+ * @returns {string[]}
+ */
+function parseDomainList(value) {
+  return (value || '')
+    .split(/[,\s]+/)
+    .map(domain => domain.trim().toLowerCase().replace(/^\*?\./, ''))
+    .filter(Boolean);
+}
+
+/**
+ * 判断主机名是否匹配域名（包括子域名）
+ * @param {string} hostname 主机名
+ * @param {string} domain 域名
+ * @returns {boolean}
+ */
+function matchesDomain(hostname, domain) {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * 判断IP地址是否属于禁止访问的地址段
+ * @param {string} address IP地址
+ * @returns {boolean}
+ */
+export function isBlockedAddress(address) {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * 校验目标URL：协议、域名白名单/黑名单以及解析后的IP地址
+ * @param {string} url 目标URL
+ * @returns {Promise<{ url: URL, addresses: { address: string, family: number }[] }>} 校验通过的URL对象和解析到的地址
+ * @throws {UrlPolicyError}
+ */
+export async function assertUrlAllowed(url) {
+  let urlObj;
+  try {
+    urlObj = new URL(url);
+  } catch {
+    throw new UrlPolicyError('INVALID_URL', 'Invalid URL format', 400);
+  }
+
+  if (!['http:', 'https:'].includes(urlObj.protocol)) {
+    throw new UrlPolicyError('INVALID_PROTOCOL', 'Invalid URL protocol', 400);
+  }
+
+  // IPv6 地址在 hostname 中带有方括号
+  const hostname = urlObj.hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+
+  const deniedDomains = parseDomainList(process.env.PROXY_DENIED_DOMAINS);
+  if (deniedDomains.some(domain => matchesDomain(hostname, domain))) {
+    throw new UrlPolicyError('DOMAIN_DENIED', `Domain is denied by proxy policy: ${hostname}`);
+  }
+
+  const allowedDomains = parseDomainList(process.env.PROXY_ALLOWED_DOMAINS);
+  if (allowedDomains.length > 0 && !allowedDomains.some(domain => matchesDomain(hostname, domain))) {
+    throw new UrlPolicyError('DOMAIN_NOT_ALLOWED', `Domain is not in the proxy allow list: ${hostname}`);
+  }
+
+  if (hostname === 'localhost' || hostname.endsWith('.localhost')) {
+    throw new UrlPolicyError('PRIVATE_ADDRESS', `Access to local addresses is not allowed: ${hostname}`);
+  }
+
+  // 解析主机名的所有地址，任意一个地址属于禁止的地址段都拒绝
+  let addresses;
+  if (net.isIP(hostname)) {
+    addresses = [{ address: hostname, family: net.isIP(hostname) }];
+  } else {
+    try {
+      addresses = await dns.promises.lookup(hostname, { all: true, verbatim: true });
+    } catch (error) {
+      throw new UrlPolicyError('DNS_LOOKUP_FAILED', `Failed to resolve hostname: ${hostname}`, 502);
+    }
+  }
+
+  const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+  if (blocked) {
+    throw new UrlPolicyError('PRIVATE_ADDRESS', `Access to private network addresses is not allowed: ${hostname} (${blocked.address})`);
+  }
+
+  return { url: urlObj, addresses };
+}
+
+/**
+ * 创建只连接指定地址的连接池：替换连接时的DNS解析，Host请求头和TLS的SNI仍使用原主机名
+ * 每个连接池只用于一次请求，不保持长连接；请求结束后由 fetchWithUrlPolicy 关闭
+ * @param {{ address: string, family: number }[]} addresses 校验通过的地址
+ * @returns {Agent}
+ */
+function createPinnedAgent(addresses) {
+  return new Agent({
+    pipelining: 0,
+    connect: {
+      lookup(hostname, options, callback) {
+        const candidates = options?.family ? addresses.filter(({ family }) => family === options.family) : addresses;
+        if (candidates.length === 0) {
+          const error = new Error(`No allowed address for ${hostname}`);
+          error.code = 'ENOTFOUND';
+          callback(error);
+        } else if (options?.all) {
+          callback(null, candidates);
+        } else {
+          callback(null, candidates[0].address, candidates[0].family);
+        }
+      },
+    },
+  });
+}
+
+/**
+ * 丢弃未读取的响应体，释放连接
+ * @param {Response} response
+ * @returns {Promise<void>}
+ */
+export async function discardBody(response) {
+  if (response.body && !response.bodyUsed) {
+    await response.body.cancel().catch(() => {});
+  }
+}
+
+/**
+ * 请求目标URL，手动跟随重定向，每次跳转前都重新校验目标地址，并且只连接校验过的地址
+ * 调用方必须读取完或丢弃（discardBody）返回的响应体，之后该请求使用的连接池随之关闭
+ * @param {string} url 目标URL
+ * @param {RequestInit} init fetch参数
+ * @param {(url: string) => Record<string, string>} [getExtraHeaders] 按每次请求的URL返回额外的请求头
+ * @returns {Promise<Response>}
+ * @throws {UrlPolicyError}
+ */
+export async function fetchWithUrlPolicy(url, init = {}, getExtraHeaders) {
+  let currentUrl = url;
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    const { addresses } = await assertUrlAllowed(currentUrl);
+
+    const headers = { ...init.headers, ...getExtraHeaders?.(currentUrl) };
+    const agent = createPinnedAgent(addresses);
+    let response;
+    try {
+      response = await fetch(currentUrl, { ...init, headers, redirect: 'manual', dispatcher: agent });
+    } catch (error) {
+      await agent.destroy();
+      throw error;
+    }
+    const location = response.headers.get('location');
+    if (!REDIRECT_STATUSES.includes(response.status) || !location) {
+      // 等待响应体读取完或被丢弃后关闭连接池
+      agent.close().catch(() => {});
+      return response;
+    }
+
+    // 丢弃重定向响应体，关闭这一跳的连接池
+    await discardBody(response);
+    await agent.close();
+    currentUrl = new URL(location, currentUrl).toString();
+  }
+
+  throw new UrlPolicyError('TOO_MANY_REDIRECTS', `Too many redirects (more than ${MAX_REDIRECTS})`, 502);
+}
@@ -0,0 +1,127 @@
+import dns from 'node:dns';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetch } from 'undici';
+import { assertUrlAllowed, fetchWithUrlPolicy, isBlockedAddress } from './urlPolicy.js';
+
+vi.mock('undici', async importOriginal => ({ ...(await importOriginal()), fetch: vi.fn() }));
+
+// 测试用的DNS记录：主机名 -> 地址
+const DNS_RECORDS = {
+  'files.example.com': '93.184.216.34',
+  'cdn.example.net': '93.184.216.35',
+  'internal.example.com': '10.0.0.5',
+  'metadata.example.com': '169.254.169.254',
+};
+
+beforeEach(() => {
+  vi.spyOn(dns.promises, 'lookup').mockImplementation(async hostname => {
+    const address = DNS_RECORDS[hostname];
+    if (!address) {
+      throw Object.assign(new Error(`getaddrinfo ENOTFOUND ${hostname}`), { code: 'ENOTFOUND' });
+    }
+    return [{ address, family: 4 }];
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.mocked(fetch).mockReset();
+  vi.unstubAllEnvs();
+});
+
+describe('isBlockedAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '::1',
+    '::ffff:127.0.0.1',
+    'fd00::1',
+    'not-an-ip',
+  ])('blocks %s', address => {
+    expect(isBlockedAddress(address)).toBe(true);
+  });
+
+  it.each(['93.184.216.34', '2606:2800:220:1::1', '::ffff:8.8.8.8'])('allows %s', address => {
+    expect(isBlockedAddress(address)).toBe(false);
+  });
+});
+
+describe('assertUrlAllowed', () => {
+  it.each([
+    'http://127.0.0.1/file.png',
+    'http://10.0.0.1/file.png',
+    'http://192.168.0.10:8080/file.png',
+    'http://[::ffff:127.0.0.1]/file.png',
+    'http://169.254.169.254/latest/meta-data/',
+    'http://localhost/file.png',
+    'http://internal.example.com/file.png',
+    'http://metadata.example.com/latest/meta-data/',
+  ])('rejects %s', async url => {
+    await expect(assertUrlAllowed(url)).rejects.toMatchObject({ code: 'PRIVATE_ADDRESS' });
+  });
+
+  it('returns the resolved addresses of an allowed host', async () => {
+    const { url, addresses } = await assertUrlAllowed('https://files.example.com/a.png');
+
+    expect(url.hostname).toBe('files.example.com');
+    expect(addresses).toEqual([{ address: '93.184.216.34', family: 4 }]);
+  });
+
+  it('rejects unsupported protocols and unresolvable hosts', async () => {
+    await expect(assertUrlAllowed('file:///etc/passwd')).rejects.toMatchObject({ code: 'INVALID_PROTOCOL' });
+    await expect(assertUrlAllowed('https://missing.example.org/a.png')).rejects.toMatchObject({ code: 'DNS_LOOKUP_FAILED' });
+  });
+
+  it('only allows domains in the allow list, including subdomains', async () => {
+    vi.stubEnv('PROXY_ALLOWED_DOMAINS', 'example.com');
+
+    await expect(assertUrlAllowed('https://files.example.com/a.png')).resolves.toBeTruthy();
+    await expect(assertUrlAllowed('https://cdn.example.net/a.png')).rejects.toMatchObject({ code: 'DOMAIN_NOT_ALLOWED' });
+  });
+
+  it('rejects denied domains even when they are allowed', async () => {
+    vi.stubEnv('PROXY_ALLOWED_DOMAINS', 'example.com, example.net');
+    vi.stubEnv('PROXY_DENIED_DOMAINS', '*.example.net');
+
+    await expect(assertUrlAllowed('https://files.example.com/a.png')).resolves.toBeTruthy();
+    await expect(assertUrlAllowed('https://cdn.example.net/a.png')).rejects.toMatchObject({ code: 'DOMAIN_DENIED' });
+  });
+});
+
+describe('fetchWithUrlPolicy', () => {
+  it('rejects a redirect from an allowed host to a private address', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(null, {
+      status: 302,
+      headers: { location: 'http://internal.example.com/secret' },
+    }));
+
+    await expect(fetchWithUrlPolicy('https://files.example.com/a.png')).rejects.toMatchObject({ code: 'PRIVATE_ADDRESS' });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('follows redirects to allowed hosts with a pinned dispatcher per hop', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(new Response(null, { status: 301, headers: { location: 'https://cdn.example.net/b.png' } }))
+      .mockResolvedValueOnce(new Response('file', { status: 200 }));
+
+    const response = await fetchWithUrlPolicy('https://files.example.com/a.png', { headers: { Accept: '*/*' } });
+
+    expect(await response.text()).toBe('file');
+    const calls = vi.mocked(fetch).mock.calls;
+    expect(calls.map(([url]) => url)).toEqual(['https://files.example.com/a.png', 'https://cdn.example.net/b.png']);
+    expect(calls.every(([, init]) => init.redirect === 'manual' && init.dispatcher)).toBe(true);
+    expect(calls[0][1].dispatcher).not.toBe(calls[1][1].dispatcher);
+  });
+
+  it('stops after too many redirects', async () => {
+    vi.mocked(fetch).mockImplementation(async () => new Response(null, {
+      status: 302,
+      headers: { location: 'https://files.example.com/loop' },
+    }));
+
+    await expect(fetchWithUrlPolicy('https://files.example.com/a.png')).rejects.toMatchObject({ code: 'TOO_MANY_REDIRECTS' });
+  });
+});
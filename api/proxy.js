@@ -1,14 +1,52 @@
 /**
  * Vercel Serverless Function - 文件代理下载
  * 用于解决浏览器CORS限制问题
+ * 带 probe=1 参数时只探测文件的类型和大小（用于预览），返回JSON，不下载文件内容
  */
 
+import { discardBody, fetchWithUrlPolicy, UrlPolicyError } from './_lib/urlPolicy.js';
+import { verifyProxySignature, ProxyAuthError } from './_lib/proxyAuth.js';
+import { probeUrl } from './_lib/probe.js';
+import { decodeHeaderRules, getHeadersForUrl, HeaderRulesError, HEADER_RULES_PROXY_HEADER } from './_lib/headerRules.js';
+import {
+  checkResponseAgainstPolicy,
+  decodeFilePolicy,
+  readBodyWithLimit,
+  FilePolicyError,
+  FILE_POLICY_PROXY_HEADER,
+} from './_lib/filePolicy.js';
+
+// 请求上游时使用的默认请求头
+const UPSTREAM_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+  'Accept': '*/*',
+};
+
+/**
+ * 透传上游的错误状态码和 Retry-After，客户端据此判断是否重试
+ * @param {import('http').ServerResponse} res
+ * @param {Response} response 上游响应
+ */
+function sendUpstreamError(res, response) {
+  const retryAfter = response.headers.get('retry-after');
+  if (retryAfter) {
+    res.setHeader('Retry-After', retryAfter);
+    res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+  }
+  return res.status(response.status).json({
+    error: `Failed to fetch file: ${response.status} ${response.statusText}`,
+    status: response.status,
+    statusText: response.statusText,
+    retryAfter,
+  });
+}
+
 export default async function handler(req, res) {
   // 处理CORS预检请求
   if (req.method === 'OPTIONS') {
     res.setHeader('Access-Control-Allow-Origin', '*');
     res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Headers', `Content-Type, ${HEADER_RULES_PROXY_HEADER}, ${FILE_POLICY_PROXY_HEADER}`);
     return res.status(200).end();
   }
 
@@ -18,65 +56,107 @@ export default async function handler(req, res) {
   }
 
   // 获取URL参数
-  const { url } = req.query;
+  const { url, expires, sig, probe } = req.query;
 
   if (!url || typeof url !== 'string') {
     return res.status(400).json({ error: 'Missing or invalid url parameter' });
   }
 
+  // 校验请求签名（配置了 PROXY_SIGNING_SECRET 时必须签名）
   try {
-    // 验证URL格式
-    let urlObj;
-    try {
-      urlObj = new URL(url);
-    } catch {
-      return res.status(400).json({ error: 'Invalid URL format' });
-    }
-
-    if (!['http:', 'https:'].includes(urlObj.protocol)) {
-      return res.status(400).json({ error: 'Invalid URL protocol' });
+    verifyProxySignature(url, expires, sig, req.headers);
+  } catch (error) {
+    if (error instanceof ProxyAuthError) {
+      res.setHeader('Access-Control-Allow-Origin', '*');
+      return res.status(error.status).json({ error: error.message, code: error.code, url });
     }
+    throw error;
+  }
 
-    // 从目标URL下载文件
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-        'Accept': '*/*',
-      },
-    });
+  try {
+    // 自定义请求头规则，只对匹配的主机附加
+    const headerRules = decodeHeaderRules(req.headers[HEADER_RULES_PROXY_HEADER]);
+    // 文件大小和类型过滤策略
+    const filePolicy = decodeFilePolicy(req.headers[FILE_POLICY_PROXY_HEADER]);
+    // 是否有请求头规则匹配了目标地址（包括重定向后的地址），匹配时响应可能包含凭据保护的内容
+    let headerRulesMatched = false;
+    const getExtraHeaders = targetUrl => {
+      const extraHeaders = getHeadersForUrl(headerRules, targetUrl);
+      if (Object.keys(extraHeaders).length > 0) {
+        headerRulesMatched = true;
+      }
+      return extraHeaders;
+    };
 
-    if (!response.ok) {
-      return res.status(response.status).json({ 
-        error: `Failed to fetch file: ${response.status} ${response.statusText}`,
-        status: response.status,
-        statusText: response.statusText,
+    // 预览探测：只返回上游的类型和大小，并按过滤策略检查
+    if (probe === '1') {
+      const { response: probeResponse, size } = await probeUrl(url, UPSTREAM_HEADERS, getExtraHeaders);
+      res.setHeader('Access-Control-Allow-Origin', '*');
+      if (!probeResponse.ok) {
+        return sendUpstreamError(res, probeResponse);
+      }
+      const finalUrl = probeResponse.url || url;
+      checkResponseAgainstPolicy(filePolicy, finalUrl, probeResponse, size);
+      return res.status(200).json({
+        url,
+        finalUrl,
+        contentType: probeResponse.headers.get('content-type'),
+        contentDisposition: probeResponse.headers.get('content-disposition'),
+        size,
       });
     }
 
-    // 获取文件内容
-    const arrayBuffer = await response.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
+    // 从目标URL下载文件（校验目标地址，并在每次重定向后重新校验）
+    const response = await fetchWithUrlPolicy(url, {
+      method: 'GET',
+      headers: UPSTREAM_HEADERS,
+    }, getExtraHeaders);
+
+    let buffer;
+    try {
+      if (!response.ok) {
+        return sendUpstreamError(res, response);
+      }
 
-    // 检查文件大小（20MB限制）
-    const maxSize = 20 * 1024 * 1024; // 20MB
-    if (buffer.length > maxSize) {
-      return res.status(413).json({ error: 'File size exceeds 20MB' });
+      // 根据响应头检查文件类型和声明的大小，再流式读取文件内容，超过上限时立即中止
+      const limit = checkResponseAgainstPolicy(filePolicy, response.url || url, response);
+      buffer = await readBodyWithLimit(response, limit);
+    } finally {
+      // 出错或被策略拒绝时丢弃未读取的响应体，释放上游连接
+      await discardBody(response);
     }
 
-    // 获取Content-Type
+    // 获取Content-Type和Content-Disposition（用于客户端确定文件名）
     const contentType = response.headers.get('content-type') || 'application/octet-stream';
+    const contentDisposition = response.headers.get('content-disposition');
 
     // 设置响应头
     res.setHeader('Content-Type', contentType);
     res.setHeader('Content-Length', buffer.length);
-    res.setHeader('Cache-Control', 'public, max-age=3600');
+    if (contentDisposition) {
+      res.setHeader('Content-Disposition', contentDisposition);
+    }
+    // 附加了Authorization、Cookie等请求头时，响应不能被共享缓存复用
+    res.setHeader('Cache-Control', headerRulesMatched ? 'private, no-store' : 'public, max-age=3600');
+    // 请求头规则和文件过滤策略不同的请求不能共用缓存，否则更严格的策略可能拿到按宽松策略下载的内容
+    res.setHeader('Vary', `${HEADER_RULES_PROXY_HEADER}, ${FILE_POLICY_PROXY_HEADER}`);
     res.setHeader('Access-Control-Allow-Origin', '*');
     res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+    res.setHeader('Access-Control-Expose-Headers', 'Content-Disposition');
 
     // 返回文件内容
     return res.status(200).send(buffer);
   } catch (error) {
+    // 目标地址或文件被策略拒绝、请求头规则无效，返回结构化错误供客户端展示
+    if (error instanceof UrlPolicyError || error instanceof HeaderRulesError || error instanceof FilePolicyError) {
+      res.setHeader('Access-Control-Allow-Origin', '*');
+      return res.status(error.status).json({
+        error: error.message,
+        code: error.code,
+        url,
+        ...error.details,
+      });
+    }
     console.error('Proxy error:', error);
     return res.status(500).json({ 
       error: error.message || 'Internal server error',
@@ -1,54 +1,229 @@
 import './App.css';
-import { bitable, ITableMeta, IViewMeta, IFieldMeta, IAttachmentField, ITextField, FieldType } from "@lark-base-open/js-sdk";
-import { Button, Form, Input, Select, Checkbox, Typography, Notification, Spin, Card, Collapse, Progress } from '@douyinfe/semi-ui';
+import { bitable, ITableMeta, IViewMeta, IFieldMeta, FieldType } from "@lark-base-open/js-sdk";
+import { ArrayField, Button, Form, Input, Select, Checkbox, Typography, Notification, Spin, Card, Collapse, Progress, Switch, Table } from '@douyinfe/semi-ui';
 import { BaseFormApi } from '@douyinfe/semi-foundation/lib/es/form/interface';
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { useTranslation } from 'react-i18next';
-import { downloadFileFromUrl, isValidUrl, getFileNameFromUrl } from './utils/fileUtils';
+import { Trans, useTranslation } from 'react-i18next';
+import { loadHeaderRulesText, parseHeaderRules, saveHeaderRulesText } from './utils/headerRules';
+import {
+  buildFilePolicy,
+  formatFileSize,
+  FilePolicySettings,
+  DEFAULT_MAX_FILE_SIZE_MB,
+  FILE_CATEGORIES,
+  FileCategory,
+} from './utils/filePolicy';
+import { IMAGE_OUTPUT_FORMATS, ImageOutputFormat, ImageProcessingOptions, isImageProcessingEnabled } from './utils/imageProcessing';
+import {
+  applyRecordLimit,
+  loadUrlSnapshot,
+  parseRecordIdList,
+  resolveRecordScope,
+  RecordLimitMode,
+  RecordScope,
+  RECORD_SCOPES,
+  UrlSnapshot,
+} from './utils/recordScope';
+import { createJobControl, JobControl } from './utils/jobControl';
+import { createRecordWatcher, RecordWatcher } from './utils/recordWatcher';
+import { buildRetryPolicy, DEFAULT_RETRY_POLICY, DEFAULT_RETRY_STATUSES, RetrySettings } from './utils/retry';
+import { summarizePreview, PreviewRow, PreviewTotals, PLANNED_ACTION_LABEL_KEYS } from './utils/preview';
+import { UrlExportMode } from './utils/attachmentUrls';
+import { collectFieldMappings, findDuplicateAttachmentFields, FieldMapping } from './utils/fieldMappings';
+import {
+  ConvertMode,
+  JobState,
+  RecordStatus,
+  createJob,
+  createJobRecorder,
+  findUnfinishedJob,
+  getFailedRecordIds,
+  getPendingRecordIds,
+  removeJob,
+} from './utils/jobStore';
+import { createStatusFieldWriter } from './utils/statusFields';
+import { getTemplateFieldNames } from './utils/fileNameTemplate';
+import {
+  createConversionEngine,
+  MappingCounts,
+  DEFAULT_CONCURRENCY,
+  DEFAULT_REQUESTS_PER_SECOND,
+} from './utils/conversionEngine';
+import {
+  checkPresetFields,
+  createPreset,
+  deletePreset,
+  loadPresets,
+  removeDeletedFields,
+  upsertPreset,
+  ConfigPreset,
+  PresetList,
+  PresetStorage,
+} from './utils/presets';
+import {
+  appendLogs,
+  clampMaxLogEntries,
+  loadMaxLogEntries,
+  saveMaxLogEntries,
+  serializeLogData,
+  LogBuffer,
+  LogEntry,
+  LogLevel,
+  EMPTY_LOG_BUFFER,
+} from './utils/logStore';
+import LogPanel from './components/LogPanel';
 
 const { Title, Text } = Typography;
 
-// 日志类型
-interface LogEntry {
-  id: number;
-  timestamp: number;
-  level: 'info' | 'warn' | 'error' | 'success';
-  message: string;
-  data?: any;
-}
-
-interface FormValues {
+interface FormValues extends FilePolicySettings, RetrySettings {
   authCode: string;
+  mode?: ConvertMode;
+  /** 反向模式：导出第一个或所有附件的链接 */
+  urlExportMode?: UrlExportMode;
   tableId: string;
   viewId: string;
+  recordScope: RecordScope;
+  /** 范围为 recordIds 时粘贴的记录ID */
+  recordIdsText?: string;
+  limitMode: RecordLimitMode;
+  limitCount?: number;
   urlFieldId: string;
   attachmentFieldId: string;
   overwrite: boolean;
+  /** 主映射之外的「URL字段 → 附件字段」映射，可能包含未填写完整的行 */
+  extraMappings?: Partial<FieldMapping>[];
+  append: boolean;
+  statusFieldId?: string;
+  errorFieldId?: string;
+  fileNameTemplate?: string;
+  /** 自定义请求头规则文本，每行：主机模式 请求头名称: 值 */
+  headerRules?: string;
+  imageMaxWidth?: number;
+  imageMaxHeight?: number;
+  imageFormat?: ImageOutputFormat;
+  imageQuality?: number;
+  stripExif?: boolean;
+  /** 是否允许保存HTML/XML页面 */
+  allowHtml?: boolean;
+  concurrency: number;
+  requestsPerSecond: number;
+}
+
+// 记录范围和上限方式对应的翻译键
+const RECORD_SCOPE_LABEL_KEYS: Record<RecordScope, string> = {
+  view: 'scopeView',
+  selection: 'scopeSelection',
+  table: 'scopeTable',
+  attachmentEmpty: 'scopeAttachmentEmpty',
+  urlChanged: 'scopeUrlChanged',
+  recordIds: 'scopeRecordIds',
+};
+
+const RECORD_LIMIT_LABEL_KEYS: Record<RecordLimitMode, string> = {
+  all: 'limitAll',
+  first: 'limitFirst',
+  sample: 'limitSample',
+};
+
+// 文件类别对应的翻译键
+const FILE_CATEGORY_LABEL_KEYS: Record<FileCategory, string> = {
+  image: 'fileCategoryImage',
+  video: 'fileCategoryVideo',
+  audio: 'fileCategoryAudio',
+  document: 'fileCategoryDocument',
+  archive: 'fileCategoryArchive',
+  other: 'fileCategoryOther',
+};
+
+// 文件名模板支持的内置变量，用于表单提示
+const TEMPLATE_VARIABLES_HINT = '{{index}} {{fileIndex}} {{date}} {{ext}} {{name}}';
+
+// 每组字段映射的处理进度
+interface MappingProgress extends MappingCounts {
+  /** URL字段名 → 附件字段名 */
+  label: string;
+}
+
+// 继续未完成任务、重试失败记录、自动转换或按预览执行时，只处理指定的记录
+interface ConvertOptions {
+  /** 沿用的任务状态，未指定时为这些记录创建新任务 */
+  job?: JobState;
+  /** 只处理这些记录，未指定时按处理范围和数量上限获取 */
+  recordIds?: string[];
+  /** 由自动转换触发：保留之前的日志，不弹出完成通知 */
+  watch?: boolean;
+  /** 预览：只提取URL、校验并探测文件，不下载和写入任何内容 */
+  dryRun?: boolean;
+  /** 每条记录处理完成后调用（预览时不调用） */
+  onRecordDone?: (recordId: string, status: RecordStatus) => void;
+}
+
+// 预览结果，可以按预览的记录直接执行转换
+interface PreviewState {
+  values: FormValues;
+  recordIds: string[];
+  rows: PreviewRow[];
+  totals: PreviewTotals;
+  mappingCount: number;
+  /** 预览被取消时只包含部分记录 */
+  cancelled: boolean;
 }
 
+// 新日志合并写入的间隔（毫秒），避免每条日志都触发一次渲染
+const LOG_FLUSH_INTERVAL = 100;
+
 export default function App() {
   const { t } = useTranslation();
   const [tableMetaList, setTableMetaList] = useState<ITableMeta[]>([]);
   const [viewMetaList, setViewMetaList] = useState<IViewMeta[]>([]);
   const [urlFieldList, setUrlFieldList] = useState<IFieldMeta[]>([]);
   const [attachmentFieldList, setAttachmentFieldList] = useState<IFieldMeta[]>([]);
+  const [statusFieldList, setStatusFieldList] = useState<IFieldMeta[]>([]);
+  const [errorFieldList, setErrorFieldList] = useState<IFieldMeta[]>([]);
   const [loading, setLoading] = useState(false);
   const [processing, setProcessing] = useState(false);
-  const [progress, setProgress] = useState({ current: 0, total: 0, success: 0, failed: 0 });
-  const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [progress, setProgress] = useState({ current: 0, total: 0, success: 0, failed: 0, mappings: [] as MappingProgress[] });
+  const [logs, setLogs] = useState<LogBuffer>(EMPTY_LOG_BUFFER);
+  const [maxLogEntries, setMaxLogEntries] = useState(loadMaxLogEntries);
   const [showLogs, setShowLogs] = useState(false);
+  const [paused, setPaused] = useState(false);
+  const [pendingJob, setPendingJob] = useState<JobState | null>(null);
+  const [lastJob, setLastJob] = useState<JobState | null>(null);
+  // 在表格中选中的记录，范围为 selection 时使用
+  const [selectedRecordIds, setSelectedRecordIds] = useState<string[]>([]);
+  // 表单中的范围和上限方式，用于切换相关输入项
+  const [recordScope, setRecordScope] = useState<RecordScope>('view');
+  const [limitMode, setLimitMode] = useState<RecordLimitMode>('all');
+  const [convertMode, setConvertMode] = useState<ConvertMode>('urlToAttachment');
+  const reverseMode = convertMode === 'attachmentToUrl';
+  const [watching, setWatching] = useState(false);
+  const [preview, setPreview] = useState<PreviewState | null>(null);
+  // 配置预设，storage 为 local 时插件存储不可用，预设只保存在本机
+  const [presets, setPresets] = useState<ConfigPreset[]>([]);
+  const [presetStorage, setPresetStorage] = useState<PresetStorage>('base');
+  const [selectedPresetId, setSelectedPresetId] = useState<string>();
+  const [presetName, setPresetName] = useState('');
+  const jobControlRef = useRef<JobControl | null>(null);
+  const watcherRef = useRef<RecordWatcher | null>(null);
+  // 是否通过记录选择框选择了记录；选择后不再跟随表格中的当前记录
+  const recordsPickedRef = useRef(false);
   const logIdRef = useRef(0);
-  const logContainerRef = useRef<HTMLDivElement>(null);
+  // 等待合并写入的日志
+  const pendingLogsRef = useRef<LogEntry[]>([]);
+  const logFlushTimerRef = useRef<number>();
+  const maxLogEntriesRef = useRef(maxLogEntries);
   const formApi = useRef<BaseFormApi>();
 
-  // 日志记录函数
-  const addLog = useCallback((level: LogEntry['level'], message: string, data?: any) => {
+  // 日志记录函数，recordId 用于按记录过滤和分组
+  const addLog = useCallback((level: LogLevel, message: string, data?: any, recordId?: string) => {
     const logEntry: LogEntry = {
       id: logIdRef.current++,
       timestamp: Date.now(),
       level,
       message,
-      data,
+      // 只保留序列化并截断后的数据，不持有原始对象
+      data: serializeLogData(data),
+      recordId,
     };
     
     // 同时输出到控制台
@@ -59,23 +234,36 @@ export default function App() {
       consoleMethod(`[${level.toUpperCase()}] ${message}`);
     }
     
-    // 添加到日志列表
-    setLogs(prev => [...prev, logEntry]);
-    
-    // 自动滚动到底部
-    setTimeout(() => {
-      if (logContainerRef.current) {
-        logContainerRef.current.scrollTop = logContainerRef.current.scrollHeight;
-      }
-    }, 100);
+    // 合并一段时间内的日志后再添加到日志列表，超过条数上限时丢弃最早的日志
+    pendingLogsRef.current.push(logEntry);
+    if (logFlushTimerRef.current === undefined) {
+      logFlushTimerRef.current = window.setTimeout(() => {
+        logFlushTimerRef.current = undefined;
+        const entries = pendingLogsRef.current;
+        pendingLogsRef.current = [];
+        setLogs(prev => appendLogs(prev, entries, maxLogEntriesRef.current));
+      }, LOG_FLUSH_INTERVAL);
+    }
   }, []);
 
   // 清空日志
   const clearLogs = useCallback(() => {
-    setLogs([]);
+    pendingLogsRef.current = [];
+    setLogs(EMPTY_LOG_BUFFER);
     logIdRef.current = 0;
   }, []);
 
+  // 修改日志条数上限，已有日志超过新上限时立即丢弃最早的部分
+  const handleMaxLogEntriesChange = useCallback((value: number) => {
+    const maxEntries = clampMaxLogEntries(value);
+    maxLogEntriesRef.current = maxEntries;
+    setMaxLogEntries(maxEntries);
+    saveMaxLogEntries(maxEntries);
+    setLogs(prev => appendLogs(prev, [], maxEntries));
+  }, []);
+
+  useEffect(() => () => window.clearTimeout(logFlushTimerRef.current), []);
+
   // 初始化：获取表格列表和当前选择
   useEffect(() => {
     let timer: number | undefined;
@@ -86,6 +274,12 @@ export default function App() {
           bitable.base.getSelection()
         ]);
         setTableMetaList(metaList);
+        if (selection.recordId) {
+          setSelectedRecordIds([selection.recordId]);
+        }
+
+        // 检查是否有上次中断的任务
+        setPendingJob(findUnfinishedJob());
         
         // 如果有选中的表格，等待formApi初始化后设置默认值
         if (selection.tableId && selection.tableId) {
@@ -113,6 +307,24 @@ export default function App() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // 读取配置预设
+  useEffect(() => {
+    loadPresets().then(({ presets: list, storage }) => {
+      setPresets(list);
+      setPresetStorage(storage);
+    });
+  }, []);
+
+  // 没有通过记录选择框选择记录时，跟随表格中的当前记录
+  useEffect(() => {
+    const off = bitable.base.onSelectionChange(({ data }) => {
+      if (!recordsPickedRef.current && data.recordId && data.tableId === formApi.current?.getValue('tableId')) {
+        setSelectedRecordIds([data.recordId]);
+      }
+    });
+    return off;
+  }, []);
+
   // 加载表格数据：视图列表和字段列表
   const loadTableData = useCallback(async (tableId: string) => {
     if (!tableId) return;
@@ -132,9 +344,14 @@ export default function App() {
         f.type === FieldType.Text || f.type === FieldType.Url || f.type === FieldType.Formula
       );
       const attachmentFields = fields.filter(f => f.type === FieldType.Attachment);
+      // 状态字段支持文本和单选字段，错误原因字段只支持文本字段
+      const statusFields = fields.filter(f => f.type === FieldType.Text || f.type === FieldType.SingleSelect);
+      const errorFields = fields.filter(f => f.type === FieldType.Text);
       
       setUrlFieldList(urlFields);
       setAttachmentFieldList(attachmentFields);
+      setStatusFieldList(statusFields);
+      setErrorFieldList(errorFields);
       
       // 设置默认视图
       if (views.length > 0) {
@@ -163,15 +380,45 @@ export default function App() {
       formApi.current?.setValue('viewId', '');
       formApi.current?.setValue('urlFieldId', '');
       formApi.current?.setValue('attachmentFieldId', '');
+      formApi.current?.setValue('extraMappings', []);
+      formApi.current?.setValue('statusFieldId', undefined);
+      formApi.current?.setValue('errorFieldId', undefined);
+      setSelectedRecordIds([]);
+      recordsPickedRef.current = false;
+      // 自动转换只监听开启时的数据表
+      if (watcherRef.current) {
+        watcherRef.current.stop();
+        watcherRef.current = null;
+        setWatching(false);
+      }
     }
   }, [loadTableData]);
 
+  // 打开记录选择框，在表格中选择多条记录
+  const handlePickRecords = useCallback(async () => {
+    const { tableId, viewId } = (formApi.current?.getValues() || {}) as FormValues;
+    if (!tableId || !viewId) {
+      Notification.warning({ title: t('error'), content: t('pleaseSelectView') });
+      return;
+    }
+    try {
+      const recordIds = await bitable.ui.selectRecordIdList(tableId, viewId);
+      if (recordIds.length > 0) {
+        recordsPickedRef.current = true;
+        setSelectedRecordIds(recordIds);
+      }
+    } catch (error) {
+      console.error('Select records error:', error);
+      Notification.error({ title: t('error'), content: String(error) });
+    }
+  }, [t]);
+
   // 刷新数据
   const handleRefresh = useCallback(async () => {
     const values = formApi.current?.getValues() as FormValues;
     if (values?.tableId) {
       await loadTableData(values.tableId);
-      Notification.success({ title: t('refresh'), content: '数据已刷新' });
+      Notification.success({ title: t('refresh'), content: t('dataRefreshed') });
     } else {
       // 重新加载表格列表
       try {
@@ -184,48 +431,300 @@ export default function App() {
   }, [loadTableData, t]);
 
   // 处理URL转附件
-  const handleConvert = useCallback(async (values: FormValues) => {
-    const { tableId, viewId, urlFieldId, attachmentFieldId, overwrite } = values;
+  const handleConvert = useCallback(async (values: FormValues, options?: ConvertOptions) => {
+    const {
+      tableId,
+      viewId,
+      urlFieldId,
+      attachmentFieldId,
+      overwrite,
+      append,
+      statusFieldId,
+      errorFieldId,
+      concurrency,
+      requestsPerSecond,
+      recordScope = 'view',
+      limitMode = 'all',
+      limitCount,
+      imageMaxWidth,
+      imageMaxHeight,
+      imageQuality,
+    } = values;
+    const mode: ConvertMode = values.mode || 'urlToAttachment';
+    // 反向模式：将附件链接写入URL字段，不下载文件
+    const reverse = mode === 'attachmentToUrl';
+    const urlExportMode: UrlExportMode = values.urlExportMode || 'all';
+    const fileNameTemplate = reverse ? undefined : values.fileNameTemplate?.trim() || undefined;
+    const imageFormat = values.imageFormat || 'original';
+    const stripExif = !!values.stripExif;
+    const imageOptions: ImageProcessingOptions = {
+      maxWidth: imageMaxWidth || undefined,
+      maxHeight: imageMaxHeight || undefined,
+      format: imageFormat,
+      quality: imageQuality || undefined,
+      stripExif,
+    };
+    const imageProcessing = isImageProcessingEnabled(imageOptions);
+    const filePolicy = buildFilePolicy(values);
+    const allowHtml = !!values.allowHtml;
+    const retryPolicy = buildRetryPolicy(values);
+    const dryRun = !!options?.dryRun;
 
-    // 清空日志并显示日志窗口
-    clearLogs();
+    // 清空日志并显示日志窗口（自动转换时保留之前的日志）
+    if (!options?.watch) {
+      clearLogs();
+    }
     setShowLogs(true);
-    addLog('info', '开始处理URL转附件任务');
+    if (dryRun) {
+      addLog('info', t('logPreviewStart'));
+    } else {
+      addLog('info', reverse ? t('logStartReverse') : t('logStart'));
+    }
+
+    if (dryRun && reverse) {
+      addLog('error', t('previewReverseUnsupported'));
+      Notification.warning({ title: t('error'), content: t('previewReverseUnsupported') });
+      return;
+    }
 
     // 验证必填字段
     if (!tableId) {
-      addLog('error', '错误：未选择数据表');
+      addLog('error', t('pleaseSelectTable'));
       Notification.warning({ title: t('error'), content: t('pleaseSelectTable') });
       return;
     }
     if (!viewId) {
-      addLog('error', '错误：未选择视图');
+      addLog('error', t('pleaseSelectView'));
       Notification.warning({ title: t('error'), content: t('pleaseSelectView') });
       return;
     }
     if (!urlFieldId || !attachmentFieldId) {
-      addLog('error', '错误：未选择URL字段或附件字段');
+      addLog('error', t('pleaseSelectFields'));
       Notification.warning({ title: t('error'), content: t('pleaseSelectFields') });
       return;
     }
+    // 反向模式只使用主映射
+    const { mappings, incompleteRows } = collectFieldMappings(
+      { urlFieldId, attachmentFieldId, overwrite: !!overwrite },
+      reverse ? [] : values.extraMappings
+    );
+    if (incompleteRows.length > 0) {
+      addLog('error', t('mappingIncomplete', { rows: incompleteRows.join(', ') }));
+      Notification.warning({ title: t('error'), content: t('mappingIncomplete', { rows: incompleteRows.join(', ') }) });
+      return;
+    }
+    if (findDuplicateAttachmentFields(mappings).length > 0) {
+      addLog('error', t('mappingDuplicateAttachment'));
+      Notification.warning({ title: t('error'), content: t('mappingDuplicateAttachment') });
+      return;
+    }
+    const extraMappings = mappings.slice(1);
+    // 状态字段和错误字段不能覆盖URL字段，且两者不能相同
+    const resultFieldIds = [statusFieldId, errorFieldId].filter(Boolean);
+    if (mappings.some(mapping => resultFieldIds.includes(mapping.urlFieldId)) || (statusFieldId && statusFieldId === errorFieldId)) {
+      addLog('error', t('resultFieldConflict'));
+      Notification.warning({ title: t('error'), content: t('resultFieldConflict') });
+      return;
+    }
+    const pastedRecordIds = parseRecordIdList(values.recordIdsText);
+    if (!options?.recordIds && recordScope === 'selection' && selectedRecordIds.length === 0) {
+      addLog('error', t('noRecordsSelected'));
+      Notification.warning({ title: t('error'), content: t('noRecordsSelected') });
+      return;
+    }
+    if (!options?.recordIds && recordScope === 'recordIds' && pastedRecordIds.length === 0) {
+      addLog('error', t('noRecordIdsEntered'));
+      Notification.warning({ title: t('error'), content: t('noRecordIdsEntered') });
+      return;
+    }
+    const { rules: headerRules, invalidLines } = parseHeaderRules(values.headerRules);
+    if (invalidLines.length > 0) {
+      addLog('error', t('headerRulesInvalid', { lines: invalidLines.join(', ') }));
+      Notification.warning({ title: t('error'), content: t('headerRulesInvalid', { lines: invalidLines.join(', ') }) });
+      return;
+    }
+    saveHeaderRulesText(values.headerRules || '');
 
-    addLog('info', `数据表ID: ${tableId}`);
-    addLog('info', `视图ID: ${viewId}`);
-    addLog('info', `URL字段ID: ${urlFieldId}`);
-    addLog('info', `附件字段ID: ${attachmentFieldId}`);
-    addLog('info', `覆盖模式: ${overwrite ? '是' : '否'}`);
+    const yesNo = (value: any) => (value ? t('yes') : t('no'));
+    addLog('info', t('logTableId', { id: tableId }));
+    addLog('info', t('logViewId', { id: viewId }));
+    addLog('info', t('logUrlFieldId', { id: urlFieldId }));
+    addLog('info', t('logAttachmentFieldId', { id: attachmentFieldId }));
+    addLog('info', t('logOverwrite', { value: yesNo(overwrite) }));
+    extraMappings.forEach((mapping, index) => {
+      addLog('info', t('logExtraMapping', {
+        index: index + 2,
+        urlFieldId: mapping.urlFieldId,
+        attachmentFieldId: mapping.attachmentFieldId,
+        overwrite: yesNo(mapping.overwrite),
+      }));
+    });
+    if (reverse) addLog('info', t('logUrlExportMode', { mode: urlExportMode === 'all' ? t('urlExportAll') : t('urlExportFirst') }));
+    if (!overwrite && !reverse) addLog('info', t('logAppend', { value: yesNo(append) }));
+    if (statusFieldId) addLog('info', t('logStatusFieldId', { id: statusFieldId }));
+    if (errorFieldId) addLog('info', t('logErrorFieldId', { id: errorFieldId }));
+    if (fileNameTemplate) addLog('info', t('logFileNameTemplate', { template: fileNameTemplate }));
+    // 以下设置只影响下载文件，反向模式不使用
+    if (!reverse) {
+      // 只记录主机模式，请求头的值可能包含密钥
+      if (headerRules.length > 0) addLog('info', t('logHeaderRules', { hosts: headerRules.map(rule => rule.hostPattern).join(', ') }));
+      addLog('info', t('logMaxFileSize', {
+        size: formatFileSize(filePolicy.defaultMaxSize),
+        categories: Object.entries(filePolicy.maxSize).map(([category, size]) => `, ${category} ${formatFileSize(size)}`).join(''),
+      }));
+      if (filePolicy.allowedMimeTypes.length > 0) addLog('info', t('logAllowedMimeTypes', { types: filePolicy.allowedMimeTypes.join(', ') }));
+      if (filePolicy.deniedMimeTypes.length > 0) addLog('info', t('logDeniedMimeTypes', { types: filePolicy.deniedMimeTypes.join(', ') }));
+      if (filePolicy.allowedExtensions.length > 0) addLog('info', t('logAllowedExtensions', { extensions: filePolicy.allowedExtensions.join(', ') }));
+      if (filePolicy.deniedExtensions.length > 0) addLog('info', t('logDeniedExtensions', { extensions: filePolicy.deniedExtensions.join(', ') }));
+      if (allowHtml) addLog('info', t('logAllowHtml'));
+      addLog('info', t('logRetryPolicy', {
+        attempts: retryPolicy.maxAttempts,
+        delay: retryPolicy.baseDelay / 1000,
+        statuses: retryPolicy.retryStatuses.join(', ') || t('none'),
+      }));
+      if (imageProcessing) {
+        addLog('info', t('logImageProcessing', {
+          width: imageOptions.maxWidth || t('unlimited'),
+          height: imageOptions.maxHeight || t('unlimited'),
+          format: imageFormat,
+          quality: imageOptions.quality || t('default'),
+          stripExif: yesNo(stripExif),
+        }));
+      }
+    }
+
+    // 自动转换的批次不清空预览结果和进度，保留用户正在查看的上一次手动任务的结果
+    const showProgress = !options?.watch;
 
     setProcessing(true);
-    setProgress({ current: 0, total: 0, success: 0, failed: 0 });
+    if (showProgress) {
+      setPreview(null);
+    }
+    // 预览和自动转换不影响已保存的任务（未完成的任务仍可继续，上次任务仍可重试失败记录）
+    if (!dryRun && !options?.watch) {
+      setPendingJob(null);
+      setLastJob(null);
+    }
+    setPaused(false);
+    if (showProgress) {
+      setProgress({ current: 0, total: 0, success: 0, failed: 0, mappings: [] });
+    }
+
+    // 创建任务控制器，供暂停、继续和取消按钮使用
+    const control = createJobControl();
+    jobControlRef.current = control;
+
+    let recorder: ReturnType<typeof createJobRecorder> | null = null;
+    // 成功处理的记录的URL，用于下次按“URL有变化”筛选
+    let urlSnapshot: UrlSnapshot | null = null;
 
     try {
       const table = await bitable.base.getTableById(tableId);
+
+      // 反向模式只能写入文本或URL字段
+      const targetFieldType = reverse ? await (await table.getFieldById(urlFieldId)).getType() : null;
+      if (reverse && targetFieldType !== FieldType.Text && targetFieldType !== FieldType.Url) {
+        addLog('error', t('targetFieldNotWritable'));
+        Notification.warning({ title: t('error'), content: t('targetFieldNotWritable') });
+        return;
+      }
+
+      const fieldMetaList = await table.getFieldMetaList();
+      const getFieldName = (fieldId: string) => fieldMetaList.find(field => field.id === fieldId)?.name || fieldId;
+
+      // 文件名模板引用的字段名 -> 字段ID
+      const templateFields: { name: string; id: string }[] = [];
+      if (fileNameTemplate) {
+        const missingFields: string[] = [];
+        for (const name of getTemplateFieldNames(fileNameTemplate)) {
+          const meta = fieldMetaList.find(field => field.name === name);
+          if (meta) {
+            templateFields.push({ name, id: meta.id });
+          } else {
+            missingFields.push(name);
+          }
+        }
+        if (missingFields.length > 0) {
+          addLog('error', t('templateFieldNotFound', { fields: missingFields.join(', ') }));
+          Notification.warning({ title: t('error'), content: t('templateFieldNotFound', { fields: missingFields.join(', ') }) });
+          return;
+        }
+      }
       
-      // 从表格获取所有记录ID（可以根据视图过滤）
-      const view = await table.getViewById(viewId);
-      const recordIds = await view.getVisibleRecordIdList();
+      let job: JobState | null = null;
+      let recordIds: (string | undefined)[];
+      if (options?.job && options.recordIds) {
+        // 继续任务或重试失败记录：沿用已保存的任务状态，只处理指定记录
+        job = options.job;
+        recordIds = options.recordIds;
+        addLog('info', t('logResumeJob', { count: recordIds.length }));
+      } else {
+        if (options?.recordIds) {
+          // 自动转换或按预览执行：只处理指定记录，不使用处理范围和数量上限
+          recordIds = options.recordIds;
+          addLog('info', options.watch
+            ? t('logWatchBatch', { count: recordIds.length })
+            : t('logCommitPreview', { count: recordIds.length }));
+        } else {
+          // 按选择的范围获取记录ID，再按上限截取
+          const scopedRecordIds = await resolveRecordScope(
+            table,
+            { scope: recordScope, viewId, urlFieldId, attachmentFieldId, selectedRecordIds, pastedRecordIds },
+            addLog
+          );
+          recordIds = applyRecordLimit(scopedRecordIds, limitMode, limitCount);
+          const scopeParams = { scope: recordScope, count: scopedRecordIds.length, limit: recordIds.length };
+          if (recordIds.length >= scopedRecordIds.length) {
+            addLog('info', t('logRecordScope', scopeParams));
+          } else {
+            addLog('info', limitMode === 'first' ? t('logRecordLimitFirst', scopeParams) : t('logRecordLimitSample', scopeParams));
+          }
+        }
+        // 自动转换的批次不保存任务状态，避免覆盖手动任务的断点
+        job = options?.watch ? null : createJob(
+          {
+            mode,
+            tableId,
+            viewId,
+            urlFieldId,
+            attachmentFieldId,
+            overwrite,
+            extraMappings,
+            append,
+            statusFieldId,
+            errorFieldId,
+            fileNameTemplate,
+            imageMaxWidth,
+            imageMaxHeight,
+            imageFormat,
+            imageQuality,
+            stripExif,
+            allowHtml,
+            maxFileSizeMb: values.maxFileSizeMb,
+            allowedMimeTypes: values.allowedMimeTypes,
+            deniedMimeTypes: values.deniedMimeTypes,
+            allowedExtensions: values.allowedExtensions,
+            deniedExtensions: values.deniedExtensions,
+            retryMaxAttempts: values.retryMaxAttempts,
+            retryBaseDelaySeconds: values.retryBaseDelaySeconds,
+            retryStatuses: values.retryStatuses,
+            concurrency,
+            requestsPerSecond,
+          },
+          recordIds.filter((id): id is string => !!id)
+        );
+      }
+      // 预览不保存任务状态
+      if (job && !dryRun) {
+        job.finished = false;
+        recorder = createJobRecorder(job);
+        recorder.flush();
+      }
+
       const total = recordIds.length;
-      setProgress(prev => ({ ...prev, total }));
+      if (showProgress) {
+        setProgress(prev => ({ ...prev, total }));
+      }
 
       if (total === 0) {
         Notification.info({ title: t('info'), content: t('noRecords') });
@@ -233,327 +732,178 @@ export default function App() {
         return;
       }
 
-      let successCount = 0;
-      let failedCount = 0;
-      let skippedCount = 0;
-
-      addLog('info', `开始处理 ${total} 条记录`);
-      setProgress(prev => ({ ...prev, current: 0, success: 0, failed: 0 }));
-
-      // 遍历每条记录
-      for (let i = 0; i < recordIds.length; i++) {
-        const recordId = recordIds[i];
-        if (!recordId) {
-          addLog('warn', `记录 ${i + 1}: 记录ID为空，跳过`);
-          skippedCount++;
-          setProgress(prev => ({ ...prev, current: i + 1 }));
-          continue;
-        }
-        
-        const currentIndex = i + 1;
-        setProgress(prev => ({ ...prev, current: currentIndex }));
-        addLog('info', `\n=== 处理第 ${currentIndex}/${total} 条记录 ===`);
-        addLog('info', `记录ID: ${recordId}`);
-
-        try {
-          // 获取URL字段的值
-          const urlValue = await table.getCellValue(urlFieldId, recordId);
-          addLog('info', `URL字段原始值:`, urlValue);
-          
-          let url: string | null = null;
-
-          // 处理不同类型的URL字段值
-          // Url字段类型返回的是ISegmentItem[]，其中包含link属性
-          // Text字段类型返回的可能是string或ISegmentItem[]
-          // Formula字段类型返回的可能是string、number、ISegment[]或number[]
-          if (urlValue) {
-            if (typeof urlValue === 'string') {
-              // 纯字符串类型（Text字段或Formula字段返回字符串）
-              url = urlValue;
-              addLog('info', `URL类型: 字符串, 值: ${url}`);
-            } else if (typeof urlValue === 'number') {
-              // 数字类型（Formula字段可能返回数字，需要转换为字符串）
-              url = String(urlValue);
-              addLog('info', `URL类型: 数字, 值: ${url}`);
-            } else if (Array.isArray(urlValue) && urlValue.length > 0) {
-              // 数组类型（ISegmentItem[]或number[]），Url字段、Text字段和Formula字段都可能是这种格式
-              const firstItem = urlValue[0];
-              addLog('info', `URL类型: 数组, 第一项:`, firstItem);
-              if (firstItem && typeof firstItem === 'object') {
-                // ISegmentItem对象，优先使用link属性（Url字段），如果没有则使用text属性（Text/Formula字段）
-                url = (firstItem as any).link || (firstItem as any).text || null;
-                addLog('info', `从数组提取URL - link: ${(firstItem as any).link}, text: ${(firstItem as any).text}, 最终URL: ${url}`);
-              } else if (typeof firstItem === 'string') {
-                // 字符串数组
-                url = firstItem;
-                addLog('info', `从数组提取URL (字符串): ${url}`);
-              } else if (typeof firstItem === 'number') {
-                // 数字数组（Formula字段可能返回）
-                url = String(firstItem);
-                addLog('info', `从数组提取URL (数字): ${url}`);
-              }
-            } else if (urlValue && typeof urlValue === 'object') {
-              // 单个对象
-              // 优先使用link属性（Url字段），如果没有则使用text属性（Text/Formula字段）
-              url = (urlValue as any).link || (urlValue as any).text || null;
-              addLog('info', `从对象提取URL，最终URL: ${url}`, urlValue);
-            }
-          }
+      // 每组映射的进度显示为「URL字段名 → 附件字段名」
+      const mappingLabels = mappings.map(mapping => `${getFieldName(mapping.urlFieldId)} → ${getFieldName(mapping.attachmentFieldId)}`);
+      const withLabels = (mappingCounts: MappingCounts[]): MappingProgress[] => (
+        mappingCounts.map((mappingCount, index) => ({ label: mappingLabels[index], ...mappingCount }))
+      );
 
-          // 如果URL为空，跳过
-          if (!url || typeof url !== 'string' || !url.trim()) {
-            addLog('warn', `URL为空或无效，跳过该记录`);
-            skippedCount++;
-            continue;
-          }
+      // 准备状态字段和错误原因字段的写入器（未配置时不写入）
+      // 预览时不创建写入器（单选状态字段会被补齐选项）
+      const statusWriter = dryRun ? null : await createStatusFieldWriter(table, statusFieldId, errorFieldId);
 
-          const trimmedUrl = url.trim();
-          addLog('info', `提取的URL: ${trimmedUrl}`);
+      if (showProgress) {
+        setProgress(prev => ({
+          ...prev,
+          current: 0,
+          success: 0,
+          failed: 0,
+          mappings: withLabels(mappings.map(() => ({ success: 0, failed: 0, skipped: 0 }))),
+        }));
+      }
 
-          // 验证URL
-          if (!isValidUrl(trimmedUrl)) {
-            addLog('error', `URL格式无效: ${trimmedUrl}`);
-            failedCount++;
-            continue;
-          }
+      // 成功处理的记录的URL写入URL快照
+      urlSnapshot = loadUrlSnapshot(tableId, urlFieldId, attachmentFieldId);
 
-          // 获取当前附件字段的值
-          const currentAttachments = await table.getCellValue(attachmentFieldId, recordId);
-          addLog('info', `当前附件字段值:`, currentAttachments);
-          
-          // 如果已有附件且不覆盖，跳过
-          if (!overwrite && currentAttachments && Array.isArray(currentAttachments) && currentAttachments.length > 0) {
-            addLog('info', `已有 ${currentAttachments.length} 个附件且不覆盖，跳过`);
-            skippedCount++;
-            continue;
-          }
-
-          // 下载文件
-          let blob: Blob | null = null;
-          try {
-            addLog('info', `开始下载文件: ${trimmedUrl}`);
-            addLog('info', `首先尝试通过代理下载（解决CORS问题）`);
-            
-            // 获取代理URL
-            const baseUrl = window.location.origin;
-            const proxyUrl = `${baseUrl}/api/proxy?url=${encodeURIComponent(trimmedUrl)}`;
-            addLog('info', `代理URL: ${proxyUrl}`);
-            
-            // 使用代理下载，并传入日志回调
-            blob = await downloadFileFromUrl(trimmedUrl, true, addLog);
-            addLog('success', `文件下载成功 - 大小: ${(blob.size / 1024).toFixed(2)} KB, 类型: ${blob.type || 'unknown'}`);
-          } catch (error: any) {
-            addLog('error', `下载文件失败: ${error?.message || String(error)}`);
-            if (error?.data) {
-              addLog('error', `错误详情:`, error.data);
-            }
-            
-            // 分析错误类型
-            const errorMsg = error?.message || String(error);
-            if (errorMsg.includes('500') || errorMsg.includes('HTTP错误') || errorMsg.includes('服务器错误')) {
-              addLog('error', `目标服务器返回错误（可能是服务器问题，不是CORS问题）`);
-              addLog('error', `如果目标服务器返回500错误，说明文件服务器有问题，无法下载`);
-              failedCount++;
-              setProgress(prev => ({ ...prev, failed: failedCount }));
-              continue;
-            } else if (errorMsg.includes('CORS') || errorMsg.includes('代理')) {
-              addLog('info', `CORS或代理问题，尝试直接下载（可能仍然失败）`);
-              try {
-                blob = await downloadFileFromUrl(trimmedUrl, false, addLog); // 不使用代理
-                addLog('success', `直接下载成功 - 大小: ${(blob.size / 1024).toFixed(2)} KB`);
-              } catch (directError: any) {
-                addLog('error', `直接下载也失败: ${directError?.message || String(directError)}`);
-                failedCount++;
-                setProgress(prev => ({ ...prev, failed: failedCount }));
-                continue;
+      const engine = createConversionEngine({
+        table,
+        uploader: { upload: files => bitable.base.batchUploadFile(files) },
+      });
+      const summary = await engine.run({
+        mode,
+        recordIds,
+        mappings,
+        append: !!append,
+        dryRun,
+        urlExportMode,
+        targetFieldType: targetFieldType ?? undefined,
+        fileNameTemplate,
+        templateFields,
+        recordIndex: new Map((job?.recordIds || recordIds.filter((id): id is string => !!id)).map((id, index) => [id, index + 1])),
+        imageOptions,
+        filePolicy,
+        allowHtml,
+        retryPolicy,
+        headerRules,
+        authCode: values.authCode,
+        concurrency,
+        requestsPerSecond,
+      }, {
+        control,
+        statusWriter,
+        onEvent: event => {
+          if (event.type === 'log') {
+            addLog(event.level, event.message, event.data, event.recordId);
+          } else if (event.type === 'record') {
+            // 预览不保存任务状态和URL快照
+            if (event.recordId && !dryRun) {
+              recorder?.record(event.recordId, event.status, event.reason);
+              options?.onRecordDone?.(event.recordId, event.status);
+              if (event.status === 'success' && event.urls) {
+                urlSnapshot?.update(event.recordId, event.urls);
               }
-            } else {
-              failedCount++;
-              setProgress(prev => ({ ...prev, failed: failedCount }));
-              continue;
             }
+          } else if (showProgress) {
+            const { progress: current } = event;
+            setProgress(prev => ({
+              ...prev,
+              current: current.completed,
+              success: current.success,
+              failed: current.failed,
+              mappings: withLabels(current.mappings),
+            }));
           }
+        },
+      });
 
-          // 检查blob是否成功下载
-          if (!blob) {
-            addLog('error', `文件下载失败，blob为空`);
-            failedCount++;
-            continue;
-          }
+      if (dryRun) {
+        const rows = summary.previewRows;
+        const totals = summarizePreview(rows);
+        addLog('info', control.cancelled ? t('logPreviewCancelled') : t('logPreviewDone'));
+        addLog('info', t('previewSummary', {
+          records: totals.records,
+          add: totals.actions.add,
+          overwrite: totals.actions.overwrite,
+          append: totals.actions.append,
+          skip: totals.actions.skip,
+          fail: totals.actions.fail,
+        }));
+        addLog('info', t('previewSizeSummary', {
+          urls: totals.urls,
+          problems: totals.problemUrls,
+          size: formatFileSize(totals.estimatedSize),
+          unknown: totals.unknownSizeUrls,
+        }));
+        // 预览被取消时只按已预览的记录执行，未预览的记录不会被转换
+        const previewedRecordIds = new Set(rows.map(row => row.recordId));
+        setPreview({
+          values,
+          recordIds: recordIds.filter((id): id is string => !!id && (!control.cancelled || previewedRecordIds.has(id))),
+          rows,
+          totals,
+          mappingCount: mappings.length,
+          cancelled: control.cancelled,
+        });
+        return;
+      }
 
-          // 上传附件到飞书
-          try {
-            // 获取文件名
-            const fileName = getFileNameFromUrl(trimmedUrl) || 'file';
-            addLog('info', `文件名: ${fileName}`);
-            
-            // 将Blob转换为File对象
-            const file = new File([blob], fileName, { type: blob.type || 'application/octet-stream' });
-            addLog('info', `File对象创建成功 - name: ${file.name}, size: ${file.size}, type: ${file.type}`);
-            
-            // 获取附件字段实例
-            const attachmentField = await table.getFieldById(attachmentFieldId) as IAttachmentField;
-            addLog('info', `附件字段实例获取成功`);
-            
-            // 使用batchUploadFile上传文件，然后设置附件值
-            addLog('info', `开始上传文件到飞书...`);
-            const fileTokens = await bitable.base.batchUploadFile([file]);
-            addLog('info', `文件上传API调用完成，返回tokens:`, fileTokens);
-            
-            if (!fileTokens || fileTokens.length === 0) {
-              throw new Error('文件上传失败，未返回token');
-            }
-            
-            const fileToken = fileTokens[0];
-            addLog('success', `文件上传成功，token: ${fileToken}`);
-            
-            // 构建附件对象（根据IOpenAttachment类型定义）
-            // IOpenAttachment需要: token, name, size, type, timeStamp
-            const attachmentItem: any = {
-              token: fileToken,
-              name: fileName,
-              size: blob.size,
-              type: blob.type || 'application/octet-stream',
-              timeStamp: Date.now(), // 添加时间戳
-            };
-            addLog('info', `附件对象构建完成:`, attachmentItem);
-
-            // 准备要设置的附件数组
-            let attachmentsToSet: any[];
-            if (overwrite || !currentAttachments || !Array.isArray(currentAttachments) || currentAttachments.length === 0) {
-              // 覆盖或为空时，设置为新附件
-              attachmentsToSet = [attachmentItem];
-              addLog('info', `使用覆盖模式，设置新附件`);
-            } else {
-              // 追加附件（保留原有附件）
-              // 确保现有附件对象格式正确
-              const normalizedExisting = (currentAttachments as any[]).map((att: any) => {
-                // 如果现有附件对象缺少必要字段，尝试规范化
-                if (att && typeof att === 'object' && att.token) {
-                  return {
-                    token: att.token,
-                    name: att.name || 'file',
-                    size: att.size || 0,
-                    type: att.type || 'application/octet-stream',
-                    timeStamp: att.timeStamp || Date.now(),
-                  };
-                }
-                return att;
-              });
-              attachmentsToSet = [...normalizedExisting, attachmentItem];
-              addLog('info', `使用追加模式，保留 ${normalizedExisting.length} 个现有附件，添加新附件`);
-            }
-            
-            addLog('info', `准备设置附件字段值（共 ${attachmentsToSet.length} 个附件）`, attachmentsToSet);
-            
-            // 使用setCellValue设置附件字段的值
-            try {
-              addLog('info', `调用 setCellValue API...`);
-              const setResult = await table.setCellValue(attachmentFieldId, recordId, attachmentsToSet);
-              addLog('info', `setCellValue API调用完成，返回值: ${setResult}`);
-              
-              // 短暂等待，让服务器处理
-              addLog('info', `等待1秒让服务器处理...`);
-              await new Promise(resolve => setTimeout(resolve, 1000));
-              
-              // 验证设置是否成功 - 重新读取附件字段值
-              addLog('info', `验证附件字段值...`);
-              const verifyAttachments = await table.getCellValue(attachmentFieldId, recordId);
-              addLog('info', `验证读取的附件字段值:`, verifyAttachments);
-              
-              // 检查是否设置成功
-              if (verifyAttachments && Array.isArray(verifyAttachments)) {
-                // 检查新附件是否在列表中
-                const hasNewAttachment = verifyAttachments.some((att: any) => 
-                  att && att.token === fileToken
-                );
-                
-                if (hasNewAttachment) {
-                  successCount++;
-                  setProgress(prev => ({ ...prev, success: successCount }));
-                  addLog('success', `✓ 处理成功！附件已确认设置到字段中`);
-                } else if (verifyAttachments.length > 0) {
-                  // 如果附件列表不为空，但找不到新附件，可能是token不匹配
-                  // 检查是否有新添加的附件（通过数量判断）
-                  const existingCount = (currentAttachments && Array.isArray(currentAttachments)) 
-                    ? currentAttachments.length 
-                    : 0;
-                  const expectedCount = overwrite ? 1 : existingCount + 1;
-                  if (verifyAttachments.length >= expectedCount) {
-                    successCount++;
-                    setProgress(prev => ({ ...prev, success: successCount }));
-                    addLog('success', `✓ 处理成功！附件数量正确（${verifyAttachments.length}个，期望${expectedCount}个）`);
-                  } else {
-                    addLog('error', `⚠ 附件数量不匹配 - 期望: ${expectedCount}, 实际: ${verifyAttachments.length}`, verifyAttachments);
-                    failedCount++;
-                    setProgress(prev => ({ ...prev, failed: failedCount }));
-                  }
-                } else {
-                  addLog('error', `⚠ 附件字段为空，设置可能失败`);
-                  failedCount++;
-                  setProgress(prev => ({ ...prev, failed: failedCount }));
-                }
-              } else {
-                // 如果验证返回null或非数组，可能是字段为空（新设置）
-                // 但在覆盖模式下，应该至少有一个附件
-                if (overwrite) {
-                  addLog('error', `⚠ 覆盖模式但附件字段为空，设置可能失败`);
-                  failedCount++;
-                  setProgress(prev => ({ ...prev, failed: failedCount }));
-                } else {
-                  // 追加模式，如果验证失败，但API调用成功，仍然认为可能成功
-                  addLog('warn', `⚠ 无法验证附件，但API调用未报错，标记为成功`);
-                  successCount++;
-                  setProgress(prev => ({ ...prev, success: successCount }));
-                }
-              }
-            } catch (setError: any) {
-              addLog('error', `❌ 设置附件字段时抛出异常: ${setError?.message || String(setError)}`, {
-                message: setError?.message,
-                name: setError?.name,
-                stack: setError?.stack,
-              });
-              failedCount++;
-              setProgress(prev => ({ ...prev, failed: failedCount }));
-            }
-          } catch (error: any) {
-            addLog('error', `上传附件失败: ${error?.message || String(error)}`, {
-              message: error?.message,
-              stack: error?.stack,
-              name: error?.name,
-            });
-            failedCount++;
-            setProgress(prev => ({ ...prev, failed: failedCount }));
-          }
-        } catch (error: any) {
-          addLog('error', `处理记录时出错: ${error?.message || String(error)}`, error);
-          failedCount++;
-          setProgress(prev => ({ ...prev, failed: failedCount }));
-        }
+      // 取消的任务保留为未完成状态，下次打开插件时可以继续
+      if (job) {
+        job.finished = !control.cancelled;
+        recorder?.flush();
+        setLastJob({ ...job });
       }
 
-      addLog('info', `\n=== 处理完成 ===`);
-      addLog('success', `成功: ${successCount} 条`);
-      addLog('error', `失败: ${failedCount} 条`);
-      addLog('info', `跳过: ${skippedCount} 条`);
-      addLog('info', `总计: ${total} 条`);
+      const { success: successCount, failed: failedCount, skipped: skippedCount } = summary;
 
-      setProgress(prev => ({ ...prev, success: successCount, failed: failedCount }));
+      addLog('info', control.cancelled ? t('logJobCancelled') : t('logJobDone'));
+      addLog('success', summary.retriedSuccess > 0
+        ? t('logSummarySuccessRetried', { count: successCount, retried: summary.retriedSuccess })
+        : t('logSummarySuccess', { count: successCount }));
+      addLog('error', t('logSummaryFailed', { count: failedCount }));
+      addLog('info', t('logSummarySkipped', { count: skippedCount }));
+      if (mappings.length > 1) {
+        withLabels(summary.mappings).forEach((mapping, index) => {
+          addLog('info', t('mappingProgress', {
+            index: index + 1,
+            label: mapping.label,
+            success: mapping.success,
+            failed: mapping.failed,
+            skipped: mapping.skipped,
+          }));
+        });
+      }
+      if (control.cancelled) {
+        addLog('warn', t('logSummaryRemaining', { count: total - summary.completed }));
+      }
+      addLog('info', t('logSummaryTotal', { count: total }));
+
+      // 任务被取消时，汇总已处理的记录
+      if (control.cancelled) {
+        Notification.warning({
+          title: t('cancelled'),
+          content: t('cancelledSummary', {
+            success: successCount,
+            failed: failedCount,
+            skipped: skippedCount,
+            remaining: total - summary.completed,
+          }),
+          duration: 5,
+        });
+        return;
+      }
       
+      // 自动转换在后台持续运行，结果只记录在日志中
+      if (options?.watch) {
+        return;
+      }
+
       // 只有在有实际处理结果时才显示通知
       if (successCount > 0 || failedCount > 0) {
         if (failedCount === 0) {
-          // 全部成功 - 使用模板字符串确保变量替换
+          // 全部成功
           Notification.success({
             title: t('success'),
-            content: `已成功处理 ${successCount} 条记录`,
+            content: summary.retriedSuccess > 0
+              ? t('completedAllSuccessRetried', { success: successCount, retried: summary.retriedSuccess })
+              : t('completedAllSuccess', { success: successCount }),
             duration: 5,
           });
         } else {
-          // 有失败记录 - 使用模板字符串确保变量替换
+          // 有失败记录
           Notification.warning({
             title: t('error'),
-            content: `已完成 ${successCount} 条记录，失败 ${failedCount} 条`,
+            content: t('completed', { success: successCount, failed: failedCount }),
             duration: 5,
           });
         }
@@ -565,18 +915,306 @@ export default function App() {
         });
       }
     } catch (error: any) {
-      addLog('error', `处理过程中发生错误: ${error?.message || String(error)}`, error);
+      addLog('error', t('logJobError', { detail: error?.message || String(error) }), error);
       Notification.error({ title: t('error'), content: String(error) });
     } finally {
+      recorder?.flush();
+      urlSnapshot?.flush();
+      jobControlRef.current = null;
+      setPaused(false);
       setProcessing(false);
     }
-  }, [t, addLog, clearLogs]);
+  }, [t, addLog, clearLogs, selectedRecordIds]);
+
+  // 自动转换时始终使用最新的handleConvert
+  const handleConvertRef = useRef(handleConvert);
+  handleConvertRef.current = handleConvert;
+
+  // 开启或关闭自动转换：监听记录的新增和修改，URL字段变化后自动转换
+  const handleToggleWatch = useCallback(async (checked: boolean) => {
+    if (!checked) {
+      watcherRef.current?.stop();
+      watcherRef.current = null;
+      setWatching(false);
+      addLog('info', t('logWatchOff'));
+      return;
+    }
+
+    // 使用开启时的表单设置，之后修改设置需要重新开启
+    const values = { ...(formApi.current?.getValues() as FormValues) };
+    if (values.mode === 'attachmentToUrl') {
+      Notification.warning({ title: t('error'), content: t('watchReverseUnsupported') });
+      return;
+    }
+    if (!values.tableId || !values.urlFieldId || !values.attachmentFieldId) {
+      Notification.warning({ title: t('error'), content: t('pleaseSelectFields') });
+      return;
+    }
+    const { mappings } = collectFieldMappings(
+      { urlFieldId: values.urlFieldId, attachmentFieldId: values.attachmentFieldId, overwrite: !!values.overwrite },
+      values.extraMappings
+    );
+
+    try {
+      const table = await bitable.base.getTableById(values.tableId);
+      watcherRef.current?.stop();
+      watcherRef.current = createRecordWatcher({
+        table,
+        urlFieldIds: Array.from(new Set(mappings.map(mapping => mapping.urlFieldId))),
+        onLog: addLog,
+        onBatch: async recordIds => {
+          // 手动任务正在运行时稍后重试
+          if (jobControlRef.current) {
+            return null;
+          }
+          // 处理失败或未处理（例如任务出错中止）的记录由监听器稍后重试
+          const done: string[] = [];
+          await handleConvertRef.current(values, {
+            recordIds,
+            watch: true,
+            onRecordDone: (recordId, status) => {
+              if (status !== 'failed') {
+                done.push(recordId);
+              }
+            },
+          });
+          return done;
+        },
+      });
+      setWatching(true);
+      setShowLogs(true);
+      addLog('info', t('logWatchOn'));
+    } catch (error) {
+      console.error('Start watching error:', error);
+      Notification.error({ title: t('error'), content: String(error) });
+    }
+  }, [t, addLog]);
+
+  // 卸载时停止监听
+  useEffect(() => () => watcherRef.current?.stop(), []);
+
+  // 暂停任务：正在处理的记录完成后不再开始新记录
+  const handlePause = useCallback(() => {
+    if (!jobControlRef.current) return;
+    jobControlRef.current.pause();
+    setPaused(true);
+    addLog('warn', t('logPaused'));
+  }, [t, addLog]);
+
+  // 继续任务
+  const handleResume = useCallback(() => {
+    if (!jobControlRef.current) return;
+    jobControlRef.current.resume();
+    setPaused(false);
+    addLog('info', t('logResumed'));
+  }, [t, addLog]);
+
+  // 取消任务：中止正在进行的下载，已处理的结果会保留在汇总中
+  const handleCancel = useCallback(() => {
+    if (!jobControlRef.current) return;
+    jobControlRef.current.cancel();
+    setPaused(false);
+    addLog('warn', t('logCancelling'));
+  }, [t, addLog]);
+
+  // 预览：只提取URL并探测文件，不写入任何内容
+  const handlePreview = useCallback(async () => {
+    const values = formApi.current?.getValues() as FormValues;
+    if (values) {
+      await handleConvert(values, { dryRun: true });
+    }
+  }, [handleConvert]);
+
+  // 按预览的设置和记录执行转换
+  const handleCommitPreview = useCallback(async () => {
+    if (!preview) return;
+    await handleConvert(preview.values, { recordIds: preview.recordIds });
+  }, [preview, handleConvert]);
 
   // 表单提交处理
   const handleSubmit = useCallback(async (values: FormValues) => {
     await handleConvert(values);
   }, [handleConvert]);
 
+  // 恢复已保存任务的表单配置，并只处理指定记录
+  const runSavedJob = useCallback(async (job: JobState, recordIds: string[]) => {
+    const { config } = job;
+    setConvertMode(config.mode || 'urlToAttachment');
+    await loadTableData(config.tableId);
+    formApi.current?.setValues({ ...formApi.current.getValues(), ...config });
+    const values = { ...(formApi.current?.getValues() as FormValues), ...config };
+    await handleConvert(values, { job, recordIds });
+  }, [loadTableData, handleConvert]);
+
+  // 继续上次未完成的任务
+  const handleResumeJob = useCallback(async () => {
+    if (!pendingJob) return;
+    await runSavedJob(pendingJob, getPendingRecordIds(pendingJob));
+  }, [pendingJob, runSavedJob]);
+
+  // 放弃上次未完成的任务
+  const handleDiscardJob = useCallback(() => {
+    if (!pendingJob) return;
+    removeJob(pendingJob.key);
+    setPendingJob(null);
+  }, [pendingJob]);
+
+  // 只重试上次处理失败的记录
+  const handleRetryFailed = useCallback(async () => {
+    if (!lastJob) return;
+    await runSavedJob(lastJob, getFailedRecordIds(lastJob));
+  }, [lastJob, runSavedJob]);
+
+  // 更新预设列表并选中指定预设
+  const applyPresetList = useCallback((list: PresetList, selectedId?: string) => {
+    setPresets(list.presets);
+    setPresetStorage(list.storage);
+    setSelectedPresetId(selectedId);
+  }, []);
+
+  // 将当前配置保存为新预设，或更新选中的预设
+  const handleSavePreset = useCallback(async (update: boolean) => {
+    const values = formApi.current?.getValues() as FormValues;
+    const existing = update ? presets.find(preset => preset.id === selectedPresetId) : undefined;
+    const name = existing ? existing.name : presetName.trim();
+    if (!values?.tableId) {
+      Notification.warning({ title: t('error'), content: t('pleaseSelectTable') });
+      return;
+    }
+    if (!name) {
+      Notification.warning({ title: t('error'), content: t('presetNameRequired') });
+      return;
+    }
+    try {
+      const table = await bitable.base.getTableById(values.tableId);
+      const preset = createPreset(name, values, await table.getFieldMetaList(), existing?.id);
+      const list = await upsertPreset(preset);
+      const saved = list.presets.find(item => item.tableId === preset.tableId && item.name === preset.name);
+      applyPresetList(list, saved?.id);
+      setPresetName('');
+      Notification.success({ title: t('presets'), content: t('presetSaved', { name }) });
+    } catch (error) {
+      console.error('Save preset error:', error);
+      Notification.error({ title: t('error'), content: String(error) });
+    }
+  }, [presets, selectedPresetId, presetName, applyPresetList, t]);
+
+  // 加载选中的预设，已删除的字段不填入表单，并提示字段的变化
+  const handleLoadPreset = useCallback(async () => {
+    const preset = presets.find(item => item.id === selectedPresetId);
+    if (!preset) return;
+    let fields: IFieldMeta[];
+    let views: IViewMeta[];
+    try {
+      const table = await bitable.base.getTableById(preset.tableId);
+      [fields, views] = await Promise.all([table.getFieldMetaList(), table.getViewMetaList()]);
+    } catch (error) {
+      console.error('Load preset table error:', error);
+      Notification.error({ title: t('error'), content: t('presetTableMissing', { name: preset.name }) });
+      return;
+    }
+
+    const issues = checkPresetFields(preset, fields);
+    const deletedFieldIds = issues.filter(issue => issue.kind === 'deleted').map(issue => issue.field.id);
+    const { viewId, ...rest } = removeDeletedFields(preset.values, deletedFieldIds);
+    // 视图已被删除时使用加载数据表时选择的默认视图
+    const viewMissing = !!viewId && !views.some(view => view.id === viewId);
+    const values = viewMissing ? rest : { ...rest, viewId };
+
+    // 自动转换只监听开启时的数据表，选中的记录也只属于原来的数据表
+    if (preset.tableId !== formApi.current?.getValue('tableId')) {
+      setSelectedRecordIds([]);
+      recordsPickedRef.current = false;
+      if (watcherRef.current) {
+        watcherRef.current.stop();
+        watcherRef.current = null;
+        setWatching(false);
+      }
+    }
+    setConvertMode(values.mode || 'urlToAttachment');
+    setRecordScope(values.recordScope || 'view');
+    setLimitMode(values.limitMode || 'all');
+    await loadTableData(preset.tableId);
+    formApi.current?.setValues({ ...formApi.current.getValues(), ...values });
+
+    const warnings = [
+      ...issues.map(issue => (issue.kind === 'deleted'
+        ? t('presetFieldDeleted', { name: issue.field.name })
+        : t('presetFieldRenamed', { name: issue.field.name, currentName: issue.currentName }))),
+      ...(viewMissing ? [t('presetViewMissing')] : []),
+    ];
+    if (warnings.length > 0) {
+      Notification.warning({
+        title: t('presetFieldsChanged', { name: preset.name }),
+        content: warnings.map(warning => <div key={warning}>{warning}</div>),
+        duration: 0,
+      });
+    } else {
+      Notification.success({ title: t('presets'), content: t('presetLoaded', { name: preset.name }) });
+    }
+  }, [presets, selectedPresetId, loadTableData, t]);
+
+  // 删除选中的预设
+  const handleDeletePreset = useCallback(async () => {
+    const preset = presets.find(item => item.id === selectedPresetId);
+    if (!preset) return;
+    try {
+      applyPresetList(await deletePreset(preset.id));
+      Notification.success({ title: t('presets'), content: t('presetDeleted', { name: preset.name }) });
+    } catch (error) {
+      console.error('Delete preset error:', error);
+      Notification.error({ title: t('error'), content: String(error) });
+    }
+  }, [presets, selectedPresetId, applyPresetList, t]);
+
+  const failedRecordCount = lastJob ? getFailedRecordIds(lastJob).length : 0;
+
+  // 预览表格的列，多组映射时显示映射序号
+  const previewColumns = [
+    {
+      title: t('previewRecord'),
+      dataIndex: 'recordId',
+      render: (_: unknown, row: PreviewRow) => `${row.index}. ${row.recordId}`,
+    },
+    ...(preview && preview.mappingCount > 1 ? [{
+      title: t('previewMapping'),
+      dataIndex: 'mappingIndex',
+      render: (_: unknown, row: PreviewRow) => row.mappingIndex + 1,
+    }] : []),
+    {
+      title: t('previewUrls'),
+      dataIndex: 'urls',
+      render: (_: unknown, row: PreviewRow) => row.urls.map(({ url, fileName, mimeType }) => (
+        <div key={url} style={{ wordBreak: 'break-all' }}>
+          {url}
+          {fileName && <Text type="tertiary" size="small">{` (${fileName}${mimeType ? `, ${mimeType}` : ''})`}</Text>}
+        </div>
+      )),
+    },
+    {
+      title: t('previewAction'),
+      dataIndex: 'action',
+      render: (_: unknown, row: PreviewRow) => t(PLANNED_ACTION_LABEL_KEYS[row.action]),
+    },
+    {
+      title: t('previewSize'),
+      dataIndex: 'estimatedSize',
+      render: (_: unknown, row: PreviewRow) => {
+        if (row.action === 'skip' || row.action === 'fail') return '-';
+        if (row.estimatedSize === 0 && row.sizeUnknown) return t('sizeUnknown');
+        return `${formatFileSize(row.estimatedSize)}${row.sizeUnknown ? '+' : ''}`;
+      },
+    },
+    {
+      title: t('previewProblem'),
+      dataIndex: 'reason',
+      render: (_: unknown, row: PreviewRow) => {
+        const problems = row.urls.filter(({ problem }) => problem).map(({ url, problem }) => `${url}: ${problem}`);
+        return row.reason && problems.length === 0 ? row.reason : problems.map(problem => <div key={problem}>{problem}</div>);
+      },
+    },
+  ];
+
   return (
     <main className="main">
       <div className="header">
@@ -592,6 +1230,78 @@ export default function App() {
       
       <Text className="description">{t('description')}</Text>
 
+      {pendingJob && !processing && (
+        <Card style={{ marginTop: '16px', backgroundColor: '#fffbe6' }}>
+          <Text strong style={{ display: 'block', marginBottom: '8px' }}>
+            {t('unfinishedJob')}
+          </Text>
+          <Text type="secondary" style={{ fontSize: '12px', display: 'block', marginBottom: '12px' }}>
+            {t('unfinishedJobProgress', {
+              processed: pendingJob.recordIds.length - getPendingRecordIds(pendingJob).length,
+              total: pendingJob.recordIds.length,
+              time: new Date(pendingJob.updatedAt).toLocaleString(),
+            })}
+          </Text>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <Button size="small" theme="solid" type="primary" onClick={handleResumeJob}>
+              {t('resumeJob')}
+            </Button>
+            <Button size="small" type="tertiary" onClick={handleDiscardJob}>
+              {t('discardJob')}
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      {/* 配置预设 */}
+      <Card style={{ marginTop: '16px' }} bodyStyle={{ padding: '12px' }}>
+        <Text strong style={{ display: 'block', marginBottom: '8px' }}>
+          {t('presets')}
+        </Text>
+        <div style={{ display: 'flex', gap: '8px', marginBottom: '8px' }}>
+          <Select
+            filter
+            showClear
+            placeholder={t('presetSelectPlaceholder')}
+            value={selectedPresetId}
+            onChange={value => setSelectedPresetId(value as string | undefined)}
+            optionList={presets.map(preset => {
+              const table = tableMetaList.find(meta => meta.id === preset.tableId);
+              return {
+                value: preset.id,
+                label: `${preset.name} · ${table ? table.name : t('presetTableDeleted')}`,
+              };
+            })}
+            emptyContent={t('presetEmpty')}
+            style={{ flex: 1, minWidth: 0 }}
+          />
+          <Button onClick={handleLoadPreset} disabled={!selectedPresetId || processing}>
+            {t('presetLoad')}
+          </Button>
+          <Button onClick={() => handleSavePreset(true)} disabled={!selectedPresetId || processing}>
+            {t('presetUpdate')}
+          </Button>
+          <Button type="danger" onClick={handleDeletePreset} disabled={!selectedPresetId || processing}>
+            {t('presetDelete')}
+          </Button>
+        </div>
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <Input
+            placeholder={t('presetNamePlaceholder')}
+            value={presetName}
+            onChange={setPresetName}
+            onEnterPress={() => handleSavePreset(false)}
+            style={{ flex: 1 }}
+          />
+          <Button theme="solid" type="primary" onClick={() => handleSavePreset(false)} disabled={processing}>
+            {t('presetSaveNew')}
+          </Button>
+        </div>
+        <Text type="tertiary" style={{ fontSize: '12px', display: 'block', marginTop: '8px' }}>
+          {presetStorage === 'base' ? t('presetsSharedHelp') : t('presetsLocalOnly')}
+        </Text>
+      </Card>
+
       <Form
         labelPosition="top"
         onSubmit={handleSubmit}
@@ -612,10 +1322,21 @@ export default function App() {
             rel="noopener noreferrer"
             style={{ color: 'var(--semi-color-link)' }}
           >
-            使用指南
+            {t('userGuide')}
           </a>
         </Text>
 
+        <Form.Select
+          field="mode"
+          label={t('convertMode')}
+          initValue="urlToAttachment"
+          style={{ width: '100%' }}
+          onChange={value => setConvertMode(value as ConvertMode)}
+        >
+          <Form.Select.Option value="urlToAttachment">{t('modeUrlToAttachment')}</Form.Select.Option>
+          <Form.Select.Option value="attachmentToUrl">{t('modeAttachmentToUrl')}</Form.Select.Option>
+        </Form.Select>
+
         <Form.Select
           field="tableId"
           label={t('selectTable')}
@@ -645,14 +1366,74 @@ export default function App() {
           ))}
         </Form.Select>
 
+        <Form.Select
+          field="recordScope"
+          label={t('recordScope')}
+          initValue="view"
+          style={{ width: '100%' }}
+          onChange={value => setRecordScope(value as RecordScope)}
+        >
+          {RECORD_SCOPES.map(scope => (
+            <Form.Select.Option key={scope} value={scope}>
+              {t(RECORD_SCOPE_LABEL_KEYS[scope])}
+            </Form.Select.Option>
+          ))}
+        </Form.Select>
+
+        {recordScope === 'selection' && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '12px' }}>
+            <Text type="secondary" style={{ fontSize: '12px' }}>
+              {t('selectedRecordCount', { count: selectedRecordIds.length })}
+            </Text>
+            <Button size="small" onClick={handlePickRecords}>
+              {t('pickRecords')}
+            </Button>
+          </div>
+        )}
+
+        {recordScope === 'recordIds' && (
+          <Form.TextArea
+            field="recordIdsText"
+            label={t('recordIdsLabel')}
+            placeholder="recXXXXXXXX, recYYYYYYYY"
+            autosize={{ minRows: 2, maxRows: 6 }}
+          />
+        )}
+
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <Form.Select
+            field="limitMode"
+            label={t('recordLimit')}
+            initValue="all"
+            style={{ width: '100%' }}
+            onChange={value => setLimitMode(value as RecordLimitMode)}
+          >
+            {(Object.keys(RECORD_LIMIT_LABEL_KEYS) as RecordLimitMode[]).map(mode => (
+              <Form.Select.Option key={mode} value={mode}>
+                {t(RECORD_LIMIT_LABEL_KEYS[mode])}
+              </Form.Select.Option>
+            ))}
+          </Form.Select>
+          <Form.InputNumber
+            field="limitCount"
+            label={t('recordLimitCount')}
+            initValue={10}
+            min={1}
+            precision={0}
+            disabled={limitMode === 'all'}
+            style={{ width: '100%' }}
+          />
+        </div>
+
         <Form.Select
           field="urlFieldId"
-          label={t('selectUrlField')}
+          label={reverseMode ? t('selectTargetUrlField') : t('selectUrlField')}
           placeholder={t('pleaseSelectFields')}
           style={{ width: '100%' }}
           disabled={!urlFieldList.length}
         >
-          {urlFieldList.map(({ name, id }) => (
+          {/* 反向模式需要写入，公式字段不可写 */}
+          {urlFieldList.filter(({ type }) => !reverseMode || type !== FieldType.Formula).map(({ name, id }) => (
             <Form.Select.Option key={id} value={id}>
               {name}
             </Form.Select.Option>
@@ -674,19 +1455,306 @@ export default function App() {
         </Form.Select>
 
         <Form.Checkbox field="overwrite" initValue={false}>
-          {t('overwriteAttachments')}
+          {reverseMode ? t('overwriteTargetText') : t('overwriteAttachments')}
         </Form.Checkbox>
 
+        {reverseMode && (
+          <Form.Select
+            field="urlExportMode"
+            label={t('urlExportMode')}
+            initValue="all"
+            style={{ width: '100%' }}
+          >
+            <Form.Select.Option value="all">{t('urlExportAll')}</Form.Select.Option>
+            <Form.Select.Option value="first">{t('urlExportFirst')}</Form.Select.Option>
+          </Form.Select>
+        )}
+
+        {/* 只用于下载文件的设置，反向模式下隐藏但保留填写的值 */}
+        <div style={{ display: reverseMode ? 'none' : undefined }}>
+          <ArrayField field="extraMappings">
+            {({ add, arrayFields }) => (
+              <div style={{ marginBottom: '8px' }}>
+                {arrayFields.map(({ field, key, remove }, index) => (
+                  <Card key={key} style={{ marginBottom: '8px' }} bodyStyle={{ padding: '8px 12px' }}>
+                    <div style={{ display: 'flex', alignItems: 'center' }}>
+                      <Text strong>{t('fieldMapping', { index: index + 2 })}</Text>
+                      <Button size="small" theme="borderless" type="danger" onClick={remove} style={{ marginLeft: 'auto' }}>
+                        {t('removeMapping')}
+                      </Button>
+                    </div>
+                    <div style={{ display: 'flex', gap: '8px' }}>
+                      <Form.Select
+                        field={`${field}.urlFieldId`}
+                        label={t('selectUrlField')}
+                        placeholder={t('pleaseSelectFields')}
+                        style={{ width: '100%' }}
+                      >
+                        {urlFieldList.map(({ name, id }) => (
+                          <Form.Select.Option key={id} value={id}>
+                            {name}
+                          </Form.Select.Option>
+                        ))}
+                      </Form.Select>
+                      <Form.Select
+                        field={`${field}.attachmentFieldId`}
+                        label={t('selectAttachmentField')}
+                        placeholder={t('pleaseSelectFields')}
+                        style={{ width: '100%' }}
+                      >
+                        {attachmentFieldList.map(({ name, id }) => (
+                          <Form.Select.Option key={id} value={id}>
+                            {name}
+                          </Form.Select.Option>
+                        ))}
+                      </Form.Select>
+                    </div>
+                    <Form.Checkbox field={`${field}.overwrite`} initValue={false}>
+                      {t('overwriteAttachments')}
+                    </Form.Checkbox>
+                  </Card>
+                ))}
+                <Button size="small" onClick={add} disabled={!attachmentFieldList.length}>
+                  {t('addMapping')}
+                </Button>
+                <Text type="secondary" style={{ fontSize: '12px', display: 'block', marginTop: '4px' }}>
+                  {t('addMappingHelp')}
+                </Text>
+              </div>
+            )}
+          </ArrayField>
+
+          <Form.Checkbox field="append" initValue={false}>
+            {t('appendAttachments')}
+          </Form.Checkbox>
+
+          <Form.Input
+            field="fileNameTemplate"
+            label={t('fileNameTemplate')}
+            placeholder="{{SKU}}_{{index}}.{{ext}}"
+            extraText={t('fileNameTemplateHelp', { variables: TEMPLATE_VARIABLES_HINT })}
+            style={{ width: '100%' }}
+            showClear
+          />
+        </div>
+
+        <Form.Select
+          field="statusFieldId"
+          label={t('selectStatusField')}
+          placeholder={t('optional')}
+          extraText={t('statusFieldHelp')}
+          style={{ width: '100%' }}
+          disabled={!statusFieldList.length}
+          showClear
+        >
+          {statusFieldList.map(({ name, id }) => (
+            <Form.Select.Option key={id} value={id}>
+              {name}
+            </Form.Select.Option>
+          ))}
+        </Form.Select>
+
+        <Form.Select
+          field="errorFieldId"
+          label={t('selectErrorField')}
+          placeholder={t('optional')}
+          extraText={t('errorFieldHelp')}
+          style={{ width: '100%' }}
+          disabled={!errorFieldList.length}
+          showClear
+        >
+          {errorFieldList.map(({ name, id }) => (
+            <Form.Select.Option key={id} value={id}>
+              {name}
+            </Form.Select.Option>
+          ))}
+        </Form.Select>
+
+        <Form.InputNumber
+          field="concurrency"
+          label={t('concurrency')}
+          extraText={t('concurrencyHelp')}
+          initValue={DEFAULT_CONCURRENCY}
+          min={1}
+          max={10}
+          precision={0}
+          style={{ width: '100%' }}
+        />
+
+        <Form.InputNumber
+          field="requestsPerSecond"
+          label={t('requestsPerSecond')}
+          extraText={t('requestsPerSecondHelp')}
+          initValue={DEFAULT_REQUESTS_PER_SECOND}
+          min={1}
+          max={50}
+          precision={0}
+          style={{ width: '100%' }}
+        />
+
+        <Collapse keepDOM style={{ marginTop: '8px', display: reverseMode ? 'none' : undefined }}>
+          <Collapse.Panel header={t('headerRules')} itemKey="headerRules">
+            <Form.TextArea
+              field="headerRules"
+              noLabel
+              initValue={loadHeaderRulesText()}
+              placeholder={'*.cdn.example.com Authorization: Bearer <token>\nfiles.example.com Cookie: session=<value>'}
+              extraText={t('headerRulesHelp')}
+              autosize={{ minRows: 3, maxRows: 8 }}
+              style={{ fontFamily: 'monospace' }}
+            />
+          </Collapse.Panel>
+          <Collapse.Panel header={t('imageProcessing')} itemKey="imageProcessing">
+            <Text type="secondary" style={{ fontSize: '12px', display: 'block', marginBottom: '8px' }}>
+              {t('imageProcessingHelp')}
+            </Text>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <Form.InputNumber
+                field="imageMaxWidth"
+                label={t('imageMaxWidth')}
+                placeholder={t('unlimited')}
+                min={1}
+                precision={0}
+                style={{ width: '100%' }}
+              />
+              <Form.InputNumber
+                field="imageMaxHeight"
+                label={t('imageMaxHeight')}
+                placeholder={t('unlimited')}
+                min={1}
+                precision={0}
+                style={{ width: '100%' }}
+              />
+            </div>
+            <Form.Select
+              field="imageFormat"
+              label={t('imageFormat')}
+              initValue="original"
+              style={{ width: '100%' }}
+            >
+              {IMAGE_OUTPUT_FORMATS.map(format => (
+                <Form.Select.Option key={format} value={format}>
+                  {format === 'original' ? t('imageFormatOriginal') : format.replace('image/', '').toUpperCase()}
+                </Form.Select.Option>
+              ))}
+            </Form.Select>
+            <Form.InputNumber
+              field="imageQuality"
+              label={t('imageQuality')}
+              extraText={t('imageQualityHelp')}
+              placeholder={t('optional')}
+              min={1}
+              max={100}
+              precision={0}
+              style={{ width: '100%' }}
+            />
+            <Form.Checkbox field="stripExif" initValue={false}>
+              {t('stripExif')}
+            </Form.Checkbox>
+          </Collapse.Panel>
+          <Collapse.Panel header={t('retry')} itemKey="retry">
+            <Text type="secondary" style={{ fontSize: '12px', display: 'block', marginBottom: '8px' }}>
+              {t('retryHelp')}
+            </Text>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <Form.InputNumber
+                field="retryMaxAttempts"
+                label={t('retryMaxAttempts')}
+                initValue={DEFAULT_RETRY_POLICY.maxAttempts}
+                min={1}
+                max={10}
+                precision={0}
+                style={{ width: '100%' }}
+              />
+              <Form.InputNumber
+                field="retryBaseDelaySeconds"
+                label={t('retryBaseDelay')}
+                initValue={DEFAULT_RETRY_POLICY.baseDelay / 1000}
+                min={0.1}
+                max={60}
+                step={0.5}
+                style={{ width: '100%' }}
+              />
+            </div>
+            <Form.Input
+              field="retryStatuses"
+              label={t('retryStatuses')}
+              placeholder={DEFAULT_RETRY_STATUSES.join(', ')}
+              style={{ width: '100%' }}
+              showClear
+            />
+          </Collapse.Panel>
+          <Collapse.Panel header={t('fileFilter')} itemKey="fileFilter">
+            <Text type="secondary" style={{ fontSize: '12px', display: 'block', marginBottom: '8px' }}>
+              {t('fileFilterHelp')}
+            </Text>
+            <Form.InputNumber
+              field="maxFileSizeMb.default"
+              label={t('maxFileSizeDefault')}
+              initValue={DEFAULT_MAX_FILE_SIZE_MB}
+              min={1}
+              style={{ width: '100%' }}
+            />
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', columnGap: '8px' }}>
+              {FILE_CATEGORIES.filter(category => category !== 'other').map(category => (
+                <Form.InputNumber
+                  key={category}
+                  field={`maxFileSizeMb.${category}`}
+                  label={t('maxFileSizeCategory', { category: t(FILE_CATEGORY_LABEL_KEYS[category]) })}
+                  placeholder={t('useDefault')}
+                  min={1}
+                  style={{ width: '100%' }}
+                />
+              ))}
+            </div>
+            <Form.Input
+              field="allowedMimeTypes"
+              label={t('allowedMimeTypes')}
+              placeholder="image/*, application/pdf"
+              style={{ width: '100%' }}
+              showClear
+            />
+            <Form.Input
+              field="deniedMimeTypes"
+              label={t('deniedMimeTypes')}
+              placeholder="video/*"
+              style={{ width: '100%' }}
+              showClear
+            />
+            <Form.Input
+              field="allowedExtensions"
+              label={t('allowedExtensions')}
+              placeholder="jpg, png, pdf"
+              style={{ width: '100%' }}
+              showClear
+            />
+            <Form.Input
+              field="deniedExtensions"
+              label={t('deniedExtensions')}
+              placeholder="exe, mp4"
+              style={{ width: '100%' }}
+              showClear
+            />
+            <Form.Checkbox field="allowHtml" initValue={false} extra={t('allowHtmlHelp')}>
+              {t('allowHtml')}
+            </Form.Checkbox>
+          </Collapse.Panel>
+        </Collapse>
+
         {processing && (
           <Card style={{ marginTop: '16px', backgroundColor: '#f7f8fa' }}>
             <div style={{ textAlign: 'center', padding: '16px' }}>
-              <Spin spinning={true} size="large" />
+              <Spin spinning={!paused} size="large" />
               <div style={{ marginTop: '16px' }}>
                 <Text strong style={{ fontSize: '16px', display: 'block', marginBottom: '8px' }}>
-                  处理进度
+                  {paused ? t('processingProgressPaused') : t('processingProgress')}
                 </Text>
                 <Text style={{ fontSize: '14px', color: '#575757', display: 'block', marginBottom: '12px' }}>
-                  正在处理第 <Text strong style={{ color: '#1890ff', fontSize: '16px' }}>{progress.current}</Text> 条记录，共 <Text strong style={{ color: '#1890ff', fontSize: '16px' }}>{progress.total}</Text> 条
+                  <Trans
+                    i18nKey="processingRecord"
+                    values={{ current: progress.current, total: progress.total }}
+                    components={{ strong: <Text strong style={{ color: '#1890ff', fontSize: '16px' }} /> }}
+                  />
                 </Text>
                 {progress.total > 0 && (
                   <Progress 
@@ -698,24 +1766,53 @@ export default function App() {
                 )}
                 <div style={{ marginTop: '12px', display: 'flex', justifyContent: 'center', gap: '24px', flexWrap: 'wrap' }}>
                   <div>
-                    <Text type="secondary" style={{ fontSize: '12px' }}>成功</Text>
+                    <Text type="secondary" style={{ fontSize: '12px' }}>{t('successCount')}</Text>
                     <Text strong style={{ fontSize: '18px', color: '#52c41a', display: 'block', marginTop: '4px' }}>
                       {progress.success}
                     </Text>
                   </div>
                   <div>
-                    <Text type="secondary" style={{ fontSize: '12px' }}>失败</Text>
+                    <Text type="secondary" style={{ fontSize: '12px' }}>{t('failedCount')}</Text>
                     <Text strong style={{ fontSize: '18px', color: '#f5222d', display: 'block', marginTop: '4px' }}>
                       {progress.failed}
                     </Text>
                   </div>
                   <div>
-                    <Text type="secondary" style={{ fontSize: '12px' }}>已完成</Text>
+                    <Text type="secondary" style={{ fontSize: '12px' }}>{t('completedCount')}</Text>
                     <Text strong style={{ fontSize: '18px', color: '#1890ff', display: 'block', marginTop: '4px' }}>
                       {progress.current} / {progress.total}
                     </Text>
                   </div>
                 </div>
+                {progress.mappings.length > 1 && (
+                  <div style={{ marginTop: '12px', textAlign: 'left' }}>
+                    {progress.mappings.map((mapping, index) => (
+                      <Text key={index} type="secondary" style={{ fontSize: '12px', display: 'block' }}>
+                        {t('mappingProgress', {
+                          index: index + 1,
+                          label: mapping.label,
+                          success: mapping.success,
+                          failed: mapping.failed,
+                          skipped: mapping.skipped,
+                        })}
+                      </Text>
+                    ))}
+                  </div>
+                )}
+                <div style={{ marginTop: '16px', display: 'flex', justifyContent: 'center', gap: '8px' }}>
+                  {paused ? (
+                    <Button size="small" onClick={handleResume}>
+                      {t('resume')}
+                    </Button>
+                  ) : (
+                    <Button size="small" onClick={handlePause}>
+                      {t('pause')}
+                    </Button>
+                  )}
+                  <Button size="small" type="danger" onClick={handleCancel}>
+                    {t('cancel')}
+                  </Button>
+                </div>
               </div>
             </div>
           </Card>
@@ -731,118 +1828,87 @@ export default function App() {
         >
           {t('confirm')}
         </Button>
-      </Form>
 
-      {/* 日志窗口 */}
-      {showLogs && (
-        <Card
-          style={{ marginTop: '24px' }}
-          title={
-            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-              <span>{t('logs')}</span>
-              <div>
-                <Button
-                  size="small"
-                  theme="borderless"
-                  type="tertiary"
-                  onClick={clearLogs}
-                  style={{ marginRight: '8px' }}
-                >
-                  {t('clearLogs')}
-                </Button>
-                <Button
-                  size="small"
-                  theme="borderless"
-                  type="tertiary"
-                  onClick={() => setShowLogs(false)}
-                >
-                  {t('hideLogs')}
-                </Button>
-              </div>
-            </div>
-          }
+        <Button
+          block
+          onClick={handlePreview}
+          disabled={processing || reverseMode}
+          style={{ marginTop: '12px' }}
         >
-          <div>
-            <div
-              ref={logContainerRef}
-              className="log-container"
-              style={{
-                maxHeight: '360px',
-                overflowY: 'auto',
-                fontFamily: 'monospace',
-                fontSize: '12px',
-                lineHeight: '1.6',
-                padding: '12px',
-                backgroundColor: '#1e1e1e',
-                color: '#d4d4d4',
-                borderRadius: '4px 4px 0 0',
-              }}
-            >
-              {logs.length === 0 ? (
-                <div style={{ color: '#888' }}>{t('noLogs')}</div>
-              ) : (
-                logs.map((log) => {
-                  const time = new Date(log.timestamp).toLocaleTimeString();
-                  const levelColor = 
-                    log.level === 'error' ? '#f48771' :
-                    log.level === 'warn' ? '#dcdcaa' :
-                    log.level === 'success' ? '#4ec9b0' :
-                    '#569cd6';
-                  
-                  return (
-                    <div
-                      key={log.id}
-                      style={{
-                        marginBottom: '4px',
-                        padding: '2px 0',
-                        borderLeft: `3px solid ${levelColor}`,
-                        paddingLeft: '8px',
-                      }}
-                    >
-                      <span style={{ color: '#808080' }}>[{time}]</span>{' '}
-                      <span style={{ color: levelColor, fontWeight: 'bold' }}>
-                        [{log.level.toUpperCase()}]
-                      </span>{' '}
-                      <span style={{ color: '#d4d4d4' }}>{log.message}</span>
-                      {log.data !== undefined && (
-                        <pre
-                          style={{
-                            margin: '4px 0 0 0',
-                            padding: '8px',
-                            backgroundColor: '#252526',
-                            borderRadius: '4px',
-                            overflow: 'auto',
-                            fontSize: '11px',
-                            color: '#ce9178',
-                          }}
-                        >
-                          {typeof log.data === 'object' ? JSON.stringify(log.data, null, 2) : String(log.data)}
-                        </pre>
-                      )}
-                    </div>
-                  );
-                })
-              )}
-            </div>
-            {/* 版权信息 */}
-            <div
-              style={{
-                textAlign: 'center',
-                fontSize: '11px',
-                color: '#888',
-                fontFamily: 'monospace',
-                padding: '8px 12px',
-                borderTop: '1px solid #333',
-                backgroundColor: '#1e1e1e',
-                borderRadius: '0 0 4px 4px',
-              }}
-            >
-              © 2025 Designed By Kizai
-            </div>
+          {t('preview')}
+        </Button>
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '12px' }}>
+          <Switch size="small" checked={watching} onChange={handleToggleWatch} disabled={reverseMode} />
+          <Text>{t('watchMode')}</Text>
+        </div>
+        <Text type="secondary" style={{ fontSize: '12px', display: 'block', marginTop: '4px' }}>
+          {watching ? t('watchModeActive') : t('watchModeHelp')}
+        </Text>
+
+        {!processing && failedRecordCount > 0 && (
+          <Button
+            type="warning"
+            block
+            onClick={handleRetryFailed}
+            style={{ marginTop: '12px' }}
+          >
+            {t('retryFailed', { count: failedRecordCount })}
+          </Button>
+        )}
+      </Form>
+
+      {/* 预览结果 */}
+      {preview && !processing && (
+        <Card style={{ marginTop: '24px' }} title={t('previewTitle')}>
+          <Text style={{ display: 'block', marginBottom: '4px' }}>
+            {t('previewSummary', {
+              records: preview.totals.records,
+              add: preview.totals.actions.add,
+              overwrite: preview.totals.actions.overwrite,
+              append: preview.totals.actions.append,
+              skip: preview.totals.actions.skip,
+              fail: preview.totals.actions.fail,
+            })}
+          </Text>
+          <Text type="secondary" style={{ fontSize: '12px', display: 'block', marginBottom: '12px' }}>
+            {t('previewSizeSummary', {
+              urls: preview.totals.urls,
+              problems: preview.totals.problemUrls,
+              size: formatFileSize(preview.totals.estimatedSize),
+              unknown: preview.totals.unknownSizeUrls,
+            })}
+            {preview.cancelled && ` ${t('previewCancelled')}`}
+          </Text>
+          <Table
+            size="small"
+            columns={previewColumns}
+            dataSource={preview.rows}
+            rowKey={(row?: PreviewRow) => `${row?.recordId}:${row?.mappingIndex}`}
+            pagination={{ pageSize: 10 }}
+          />
+          <div style={{ display: 'flex', gap: '8px', marginTop: '12px' }}>
+            <Button theme="solid" type="primary" onClick={handleCommitPreview} disabled={preview.recordIds.length === 0}>
+              {t('commitPreview', { count: preview.recordIds.length })}
+            </Button>
+            <Button type="tertiary" onClick={() => setPreview(null)}>
+              {t('closePreview')}
+            </Button>
           </div>
         </Card>
       )}
 
+      {/* 日志窗口 */}
+      {showLogs && (
+        <LogPanel
+          logs={logs}
+          maxEntries={maxLogEntries}
+          onMaxEntriesChange={handleMaxLogEntriesChange}
+          onClear={clearLogs}
+          onHide={() => setShowLogs(false)}
+        />
+      )}
+
       {/* 如果没有日志但处理中，显示一个简单的日志入口 */}
       {!showLogs && processing && (
         <Button
@@ -0,0 +1,320 @@
+import { ReactElement, UIEvent, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Button, Card, Input, InputNumber, Radio, RadioGroup, Select } from '@douyinfe/semi-ui';
+import { useTranslation } from 'react-i18next';
+import {
+  downloadTextFile,
+  filterLogs,
+  groupLogsByRecord,
+  toCsv,
+  toJsonLines,
+  LogBuffer,
+  LogEntry,
+  LogLevel,
+  LOG_LEVELS,
+  MAX_MAX_LOG_ENTRIES,
+  MIN_MAX_LOG_ENTRIES,
+  RecordLogGroup,
+} from '../../utils/logStore';
+
+// 每行的固定高度和可视区域高度（像素），只渲染可视区域附近的行
+const ROW_HEIGHT = 22;
+const VIEWPORT_HEIGHT = 360;
+const OVERSCAN = 10;
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  error: '#f48771',
+  warn: '#dcdcaa',
+  success: '#4ec9b0',
+  info: '#569cd6',
+};
+
+type ViewMode = 'list' | 'record';
+
+type LogRow =
+  | { kind: 'entry'; entry: LogEntry; nested: boolean }
+  | { kind: 'group'; group: RecordLogGroup; expanded: boolean };
+
+interface LogPanelProps {
+  logs: LogBuffer;
+  maxEntries: number;
+  onMaxEntriesChange: (maxEntries: number) => void;
+  onClear: () => void;
+  onHide: () => void;
+}
+
+/**
+ * 导出文件名中的时间，例如 20250101-120000
+ * @returns string
+ */
+function getExportTimestamp(): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const date = new Date();
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+export default function LogPanel(props: LogPanelProps): ReactElement {
+  const { logs, maxEntries, onMaxEntriesChange, onClear, onHide } = props;
+  const { t } = useTranslation();
+  const [levels, setLevels] = useState<LogLevel[]>([]);
+  const [recordFilter, setRecordFilter] = useState('');
+  const [viewMode, setViewMode] = useState<ViewMode>('list');
+  // 按记录查看时展开的记录
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  // 输入过程中不立即生效，失去焦点后再调整上限，避免输入中间值时丢弃日志
+  const [maxEntriesInput, setMaxEntriesInput] = useState<number>(maxEntries);
+  const containerRef = useRef<HTMLDivElement>(null);
+  // 滚动条在底部时，新日志到达后自动滚动到底部
+  const followRef = useRef(true);
+
+  const filtered = useMemo(
+    () => filterLogs(logs.entries, { levels, recordId: recordFilter }),
+    [logs.entries, levels, recordFilter]
+  );
+
+  const rows = useMemo<LogRow[]>(() => {
+    if (viewMode === 'list') {
+      return filtered.map(entry => ({ kind: 'entry', entry, nested: false }));
+    }
+    const result: LogRow[] = [];
+    for (const group of groupLogsByRecord(filtered)) {
+      // 不属于任何记录的日志直接显示
+      if (!group.recordId) {
+        group.entries.forEach(entry => result.push({ kind: 'entry', entry, nested: false }));
+        continue;
+      }
+      const isExpanded = expanded.has(group.recordId);
+      result.push({ kind: 'group', group, expanded: isExpanded });
+      if (isExpanded) {
+        group.entries.forEach(entry => result.push({ kind: 'entry', entry, nested: true }));
+      }
+    }
+    return result;
+  }, [filtered, viewMode, expanded]);
+
+  const selected = useMemo(
+    () => (selectedId === null ? undefined : logs.entries.find(entry => entry.id === selectedId)),
+    [logs.entries, selectedId]
+  );
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (container && followRef.current) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [rows.length]);
+
+  useEffect(() => {
+    setMaxEntriesInput(maxEntries);
+  }, [maxEntries]);
+
+  // 清空日志后重置选中状态
+  useEffect(() => {
+    if (logs.entries.length === 0) {
+      setSelectedId(null);
+      setExpanded(new Set());
+    }
+  }, [logs.entries.length]);
+
+  const handleScroll = (event: UIEvent<HTMLDivElement>) => {
+    const target = event.currentTarget;
+    followRef.current = target.scrollTop + target.clientHeight >= target.scrollHeight - ROW_HEIGHT;
+    setScrollTop(target.scrollTop);
+  };
+
+  const toggleGroup = (recordId: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(recordId)) {
+        next.delete(recordId);
+      } else {
+        next.add(recordId);
+      }
+      return next;
+    });
+  };
+
+  // 导出当前过滤后的日志
+  const handleExport = (format: 'jsonl' | 'csv') => {
+    const fileName = `url2file-logs-${getExportTimestamp()}.${format}`;
+    if (format === 'jsonl') {
+      downloadTextFile(fileName, toJsonLines(filtered), 'application/x-ndjson');
+    } else {
+      downloadTextFile(fileName, toCsv(filtered), 'text/csv');
+    }
+  };
+
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(rows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+
+  const renderRow = (row: LogRow) => {
+    if (row.kind === 'group') {
+      const { group } = row;
+      const lastEntry = group.entries[group.entries.length - 1];
+      return (
+        <div className="log-row log-group" onClick={() => toggleGroup(group.recordId)} title={lastEntry.message}>
+          <span style={{ color: '#808080' }}>{row.expanded ? '▾' : '▸'}</span>{' '}
+          <span style={{ color: LEVEL_COLORS[group.level], fontWeight: 'bold' }}>{group.recordId}</span>{' '}
+          <span style={{ color: '#808080' }}>({t('logEntryCount', { count: group.entries.length })})</span>{' '}
+          <span>{lastEntry.message}</span>
+        </div>
+      );
+    }
+    const { entry } = row;
+    const levelColor = LEVEL_COLORS[entry.level];
+    return (
+      <div
+        className={`log-row${entry.id === selectedId ? ' log-row-selected' : ''}`}
+        onClick={() => setSelectedId(entry.id === selectedId ? null : entry.id)}
+        title={entry.message}
+        style={{ borderLeft: `3px solid ${levelColor}`, paddingLeft: row.nested ? '24px' : '8px' }}
+      >
+        <span style={{ color: '#808080' }}>[{new Date(entry.timestamp).toLocaleTimeString()}]</span>{' '}
+        <span style={{ color: levelColor, fontWeight: 'bold' }}>[{entry.level.toUpperCase()}]</span>{' '}
+        <span>{entry.message}</span>
+        {entry.data !== undefined && <span style={{ color: '#ce9178' }}> {'{…}'}</span>}
+      </div>
+    );
+  };
+
+  return (
+    <Card
+      style={{ marginTop: '24px' }}
+      title={
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <span>{t('logs')}</span>
+          <div>
+            <Button size="small" theme="borderless" type="tertiary" onClick={() => handleExport('jsonl')} disabled={filtered.length === 0} title={t('logExport')}>
+              JSONL
+            </Button>
+            <Button size="small" theme="borderless" type="tertiary" onClick={() => handleExport('csv')} disabled={filtered.length === 0} title={t('logExport')}>
+              CSV
+            </Button>
+            <Button size="small" theme="borderless" type="tertiary" onClick={onClear} style={{ marginRight: '8px' }}>
+              {t('clearLogs')}
+            </Button>
+            <Button size="small" theme="borderless" type="tertiary" onClick={onHide}>
+              {t('hideLogs')}
+            </Button>
+          </div>
+        </div>
+      }
+    >
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginBottom: '8px' }}>
+        <Select
+          multiple
+          size="small"
+          maxTagCount={2}
+          placeholder={t('logAllLevels')}
+          value={levels}
+          onChange={value => setLevels(value as LogLevel[])}
+          optionList={LOG_LEVELS.map(level => ({ label: level.toUpperCase(), value: level }))}
+          style={{ minWidth: '140px', flex: 1 }}
+        />
+        <Input
+          size="small"
+          showClear
+          placeholder={t('logRecordFilter')}
+          value={recordFilter}
+          onChange={setRecordFilter}
+          style={{ minWidth: '140px', flex: 1 }}
+        />
+        <RadioGroup
+          type="button"
+          buttonSize="small"
+          value={viewMode}
+          onChange={event => setViewMode(event.target.value as ViewMode)}
+        >
+          <Radio value="list">{t('logViewList')}</Radio>
+          <Radio value="record">{t('logViewByRecord')}</Radio>
+        </RadioGroup>
+      </div>
+      <div>
+        <div
+          ref={containerRef}
+          className="log-container"
+          onScroll={handleScroll}
+          style={{
+            height: `${VIEWPORT_HEIGHT}px`,
+            overflowY: 'auto',
+            fontFamily: 'monospace',
+            fontSize: '12px',
+            backgroundColor: '#1e1e1e',
+            color: '#d4d4d4',
+            borderRadius: '4px 4px 0 0',
+          }}
+        >
+          {rows.length === 0 ? (
+            <div style={{ color: '#888', padding: '12px' }}>{t('noLogs')}</div>
+          ) : (
+            <div style={{ height: `${rows.length * ROW_HEIGHT}px`, position: 'relative' }}>
+              {rows.slice(start, end).map((row, offset) => (
+                <div
+                  key={row.kind === 'group' ? `group-${row.group.recordId}` : row.entry.id}
+                  style={{ position: 'absolute', top: `${(start + offset) * ROW_HEIGHT}px`, left: 0, right: 0, height: `${ROW_HEIGHT}px` }}
+                >
+                  {renderRow(row)}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        {/* 选中日志的完整内容和附带数据 */}
+        {selected && (
+          <pre className="log-detail">
+            {`[${new Date(selected.timestamp).toLocaleString()}] [${selected.level.toUpperCase()}]${selected.recordId ? ` ${selected.recordId}` : ''}\n${selected.message}`}
+            {selected.data !== undefined && `\n\n${selected.data}`}
+          </pre>
+        )}
+        <div
+          style={{
+            display: 'flex',
+            flexWrap: 'wrap',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            gap: '8px',
+            fontSize: '11px',
+            color: '#888',
+            padding: '8px 12px',
+            borderTop: '1px solid #333',
+            backgroundColor: '#1e1e1e',
+          }}
+        >
+          <span>
+            {t('logShowing', { shown: filtered.length, total: logs.entries.length })}
+            {logs.dropped > 0 && ` ${t('logDropped', { count: logs.dropped })}`}
+          </span>
+          <span>
+            {t('logMaxEntries')}{' '}
+            <InputNumber
+              size="small"
+              min={MIN_MAX_LOG_ENTRIES}
+              max={MAX_MAX_LOG_ENTRIES}
+              step={1000}
+              value={maxEntriesInput}
+              onNumberChange={value => setMaxEntriesInput(value)}
+              onBlur={() => onMaxEntriesChange(maxEntriesInput)}
+              style={{ width: '100px', display: 'inline-block' }}
+            />
+          </span>
+        </div>
+        {/* 版权信息 */}
+        <div
+          style={{
+            textAlign: 'center',
+            fontSize: '11px',
+            color: '#888',
+            fontFamily: 'monospace',
+            padding: '8px 12px',
+            borderTop: '1px solid #333',
+            backgroundColor: '#1e1e1e',
+            borderRadius: '0 0 4px 4px',
+          }}
+        >
+          © 2025 Designed By Kizai
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,92 @@
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { describe, expect, it } from 'vitest';
+import en from './en.json';
+import ja from './ja.json';
+import zh from './zh.json';
+
+const LOCALES: Record<string, Record<string, string>> = { en, zh, ja };
+
+const SRC_DIR = fileURLToPath(new URL('..', import.meta.url));
+
+// 文案中按语言翻译的字面占位符（例如 {{字段名}}），不是插值变量
+const LITERAL_PLACEHOLDER_KEYS = ['fileNameTemplateHelp'];
+
+/**
+ * 列出目录下的所有源码文件（不含测试文件）
+ * @param dir 目录
+ * @returns string[]
+ */
+function listSourceFiles(dir: string): string[] {
+  return readdirSync(dir).flatMap(name => {
+    const path = join(dir, name);
+    if (statSync(path).isDirectory()) {
+      return listSourceFiles(path);
+    }
+    return /\.tsx?$/.test(name) && !/\.test\.tsx?$/.test(name) ? [path] : [];
+  });
+}
+
+/**
+ * 从源码中收集使用的翻译键
+ * 包括 t('key')、<Trans i18nKey="key">、*_KEYS 常量表中的键，以及 messageKey 和 FilePolicyError 传入的键
+ * @param source 源码
+ * @returns string[]
+ */
+function collectUsedKeys(source: string): string[] {
+  const keys = new Set<string>();
+  for (const [, key] of source.matchAll(/\bt\(\s*['"]([\w.]+)['"]/g)) {
+    keys.add(key);
+  }
+  for (const [, key] of source.matchAll(/i18nKey="([\w.]+)"/g)) {
+    keys.add(key);
+  }
+  for (const [, body] of source.matchAll(/_KEYS\b[^=\n]*=\s*\{([\s\S]*?)\n\}/g)) {
+    for (const [, key] of body.matchAll(/:\s*'(\w+)'/g)) {
+      keys.add(key);
+    }
+  }
+  for (const line of source.split('\n')) {
+    if (/messageKey|FilePolicyError\(/i.test(line)) {
+      for (const [, key] of line.matchAll(/'([a-z][A-Za-z0-9]*)'/g)) {
+        keys.add(key);
+      }
+    }
+  }
+  return Array.from(keys);
+}
+
+/**
+ * 获取文案中的插值变量
+ * @param text 文案
+ * @returns string[] 排序后的变量名
+ */
+function getInterpolations(text: string): string[] {
+  return Array.from(text.matchAll(/\{\{(\w+)\}\}/g), ([, name]) => name).sort();
+}
+
+describe('locales', () => {
+  const enKeys = Object.keys(en).sort();
+
+  it.each(Object.keys(LOCALES))('%s has the same keys as en', lang => {
+    expect(Object.keys(LOCALES[lang]).sort()).toEqual(enKeys);
+  });
+
+  it.each(Object.keys(LOCALES))('%s uses the same interpolations as en', lang => {
+    const mismatched = enKeys.filter(key =>
+      !LITERAL_PLACEHOLDER_KEYS.includes(key)
+      && getInterpolations(LOCALES[lang][key] ?? '').join() !== getInterpolations((en as Record<string, string>)[key]).join()
+    );
+    expect(mismatched).toEqual([]);
+  });
+
+  it('defines every key used in the source', () => {
+    const missing = listSourceFiles(SRC_DIR).flatMap(file =>
+      collectUsedKeys(readFileSync(file, 'utf8'))
+        .filter(key => !(key in en))
+        .map(key => `${key} (${file.slice(SRC_DIR.length)})`)
+    );
+    expect(missing).toEqual([]);
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * 附件链接导出工具函数
+ * 反向模式下将附件字段中的文件链接写入文本或URL字段
+ */
+
+import { FieldType, IOpenCellValue, IOpenSegmentType } from '@lark-base-open/js-sdk';
+
+/**
+ * - first: 只导出第一个附件的链接
+ * - all: 导出所有附件的链接，每行一个
+ */
+export type UrlExportMode = 'first' | 'all';
+
+/**
+ * 根据目标字段类型构建单元格值
+ * URL字段的每个链接为一个链接段（除最后一个外以换行结尾），文本字段为换行连接的文本
+ * @param urls 链接列表
+ * @param fieldType 目标字段类型（Text或Url）
+ * @returns IOpenCellValue
+ */
+export function buildUrlCellValue(urls: string[], fieldType: FieldType): IOpenCellValue {
+  if (urls.length === 0) {
+    return null;
+  }
+  if (fieldType === FieldType.Url) {
+    return urls.map((url, index) => ({
+      type: IOpenSegmentType.Url,
+      text: index < urls.length - 1 ? `${url}\n` : url,
+      link: url,
+    }));
+  }
+  return [{ type: IOpenSegmentType.Text, text: urls.join('\n') }];
+}
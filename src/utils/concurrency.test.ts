@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRateLimiter, runWithConcurrency } from './concurrency';
+
+describe('runWithConcurrency', () => {
+  it('never runs more than the given number of workers at once', async () => {
+    let running = 0;
+    let peak = 0;
+    const processed: number[] = [];
+
+    await runWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async (item, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, item % 3));
+      processed[index] = item;
+      running--;
+    });
+
+    expect(peak).toBe(3);
+    expect(processed).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it('uses one worker for an invalid concurrency and none for an empty list', async () => {
+    const worker = vi.fn(async () => undefined);
+
+    await runWithConcurrency([], 4, worker);
+    await runWithConcurrency(['a', 'b'], Number.NaN, worker);
+
+    expect(worker.mock.calls).toEqual([['a', 0], ['b', 1]]);
+  });
+
+  it('stops taking new items once aborted', async () => {
+    const controller = new AbortController();
+    const processed: number[] = [];
+
+    await runWithConcurrency([1, 2, 3, 4], 2, async item => {
+      processed.push(item);
+      if (item === 2) {
+        controller.abort();
+      }
+    }, controller.signal);
+
+    expect(processed).toEqual([1, 2]);
+  });
+});
+
+describe('createRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('spaces calls at least 1000 / requestsPerSecond milliseconds apart', async () => {
+    const waitForRateLimit = createRateLimiter(4);
+    const releasedAt: number[] = [];
+
+    const calls = [1, 2, 3].map(() => waitForRateLimit().then(() => releasedAt.push(Date.now())));
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all(calls);
+
+    expect(releasedAt).toEqual([0, 250, 500]);
+  });
+
+  it('does not wait again after an idle period', async () => {
+    const waitForRateLimit = createRateLimiter(2);
+    await waitForRateLimit();
+    await vi.advanceTimersByTimeAsync(2000);
+
+    const start = Date.now();
+    await waitForRateLimit();
+
+    expect(Date.now()).toBe(start);
+  });
+
+  it('does not limit when the rate is zero', async () => {
+    const waitForRateLimit = createRateLimiter(0);
+
+    await Promise.all([waitForRateLimit(), waitForRateLimit(), waitForRateLimit()]);
+
+    expect(Date.now()).toBe(0);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * 并发控制工具函数
+ * 用于限制同时处理的任务数量和每秒请求数
+ */
+
+/**
+ * 创建速率限制器，保证相邻两次放行之间至少间隔 1000 / requestsPerSecond 毫秒
+ * @param requestsPerSecond 每秒最大请求数（小于等于0表示不限制）
+ * @returns 调用后等待放行的函数
+ */
+export function createRateLimiter(requestsPerSecond: number): () => Promise<void> {
+  if (!requestsPerSecond || requestsPerSecond <= 0) {
+    return () => Promise.resolve();
+  }
+
+  const interval = 1000 / requestsPerSecond;
+  // 下一个可用的放行时间点，所有调用者共享
+  let nextSlot = 0;
+
+  return () => {
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot);
+    nextSlot = slot + interval;
+    const wait = slot - now;
+    return wait > 0 ? new Promise(resolve => setTimeout(resolve, wait)) : Promise.resolve();
+  };
+}
+
+/**
+ * 使用固定数量的worker并发处理任务列表
+ * 每个worker依次从队列中取出下一个任务，所有任务完成后返回
+ * @param items 任务列表
+ * @param concurrency 最大并发数
+ * @param worker 处理单个任务的函数
+ * @param signal 可选的中止信号，中止后worker不再取出新任务
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let nextIndex = 0;
+  const workerCount = Math.max(1, Math.min(Math.floor(concurrency) || 1, items.length));
+
+  const runWorker = async () => {
+    while (nextIndex < items.length && !signal?.aborted) {
+      const index = nextIndex++;
+      await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, () => runWorker()));
+}
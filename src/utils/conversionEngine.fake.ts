@@ -0,0 +1,119 @@
+/**
+ * 内存中的多维表格实现
+ * 模拟转换引擎使用的数据表和字段接口，用于单元测试；单元格值按飞书SDK的格式保存，读取时返回副本
+ */
+
+import { FieldType, IFieldMeta, IOpenAttachment, IRecordValue } from '@lark-base-open/js-sdk';
+import { getCellTextSegments } from './urlUtils';
+import { ConversionTable, ConversionUploader } from './conversionEngine';
+
+export interface FakeField {
+  id: string;
+  name: string;
+  type: FieldType;
+}
+
+export interface FakeTable extends ConversionTable {
+  getFieldMetaList(): Promise<IFieldMeta[]>;
+  /** 直接读取单元格，不经过异步接口 */
+  peek(fieldId: string, recordId: string): any;
+}
+
+export interface FakeUploader extends ConversionUploader {
+  /** 所有上传过的文件，按上传顺序 */
+  readonly files: File[];
+}
+
+// 附件下载链接的前缀，测试中按token区分文件
+export const FAKE_ATTACHMENT_URL_PREFIX = 'https://fake.feishu.test/attachments/';
+
+/**
+ * 复制单元格值，避免调用方修改表格中保存的值
+ * @param value 单元格值
+ * @returns any
+ */
+function cloneCellValue(value: any): any {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * 创建内存中的数据表
+ * @param fields 字段列表
+ * @param records 记录ID -> 字段ID -> 单元格值
+ * @returns FakeTable
+ */
+export function createFakeTable(fields: FakeField[], records: Record<string, Record<string, any>> = {}): FakeTable {
+  const cells = new Map<string, Record<string, any>>(
+    Object.entries(records).map(([recordId, values]) => [recordId, cloneCellValue(values)])
+  );
+
+  const getRecord = (recordId: string): Record<string, any> => {
+    const record = cells.get(recordId);
+    if (!record) {
+      throw new Error(`Record not found: ${recordId}`);
+    }
+    return record;
+  };
+
+  const getField = (fieldId: string): FakeField => {
+    const field = fields.find(item => item.id === fieldId);
+    if (!field) {
+      throw new Error(`Field not found: ${fieldId}`);
+    }
+    return field;
+  };
+
+  return {
+    async getFieldMetaList() {
+      return fields.map(({ id, name, type }) => ({ id, name, type }) as IFieldMeta);
+    },
+    peek(fieldId, recordId) {
+      return cloneCellValue(getRecord(recordId)[fieldId]);
+    },
+    async getCellValue(fieldId, recordId) {
+      getField(fieldId);
+      return cloneCellValue(getRecord(recordId)[fieldId]);
+    },
+    async getCellString(fieldId, recordId) {
+      const { type } = getField(fieldId);
+      const value = getRecord(recordId)[fieldId];
+      if (type === FieldType.Attachment) {
+        return Array.isArray(value) ? value.map((attachment: IOpenAttachment) => attachment.name).join(',') : '';
+      }
+      return getCellTextSegments(value).join('');
+    },
+    async getCellAttachmentUrls(tokens, fieldId, recordId) {
+      const attachments: IOpenAttachment[] = getRecord(recordId)[fieldId] || [];
+      return tokens
+        .filter(token => attachments.some(attachment => attachment.token === token))
+        .map(token => `${FAKE_ATTACHMENT_URL_PREFIX}${token}`);
+    },
+    async setCellValue(fieldId, recordId, cellValue) {
+      getField(fieldId);
+      getRecord(recordId)[fieldId] = cloneCellValue(cellValue);
+      return true;
+    },
+    async setRecord(recordId, recordValue?: IRecordValue) {
+      const record = getRecord(recordId);
+      Object.entries(recordValue?.fields || {}).forEach(([fieldId, value]) => {
+        getField(fieldId);
+        record[fieldId] = cloneCellValue(value);
+      });
+      return recordId;
+    },
+  };
+}
+
+/**
+ * 创建内存中的上传器，按上传顺序返回 token-1、token-2……
+ * @returns FakeUploader
+ */
+export function createFakeUploader(): FakeUploader {
+  const files: File[] = [];
+  return {
+    files,
+    async upload(batch) {
+      return batch.map(file => `token-${files.push(file)}`);
+    },
+  };
+}
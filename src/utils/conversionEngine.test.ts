@@ -0,0 +1,347 @@
+import i18next, { t } from 'i18next';
+import { FieldType, IOpenAttachment, IOpenSegmentType, IOpenTextSegment } from '@lark-base-open/js-sdk';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import en from '../locales/en.json';
+import {
+  createConversionEngine,
+  ConversionEvent,
+  ConversionFetcher,
+  ConversionJobSpec,
+} from './conversionEngine';
+import { CorsError, NetworkError, ProxyError, UpstreamHttpError } from './errors';
+import { createFakeTable, createFakeUploader, FAKE_ATTACHMENT_URL_PREFIX, FakeTable } from './conversionEngine.fake';
+import { buildFilePolicy } from './filePolicy';
+import { createJobControl } from './jobControl';
+import { DEFAULT_RETRY_POLICY } from './retry';
+import { getCellTextSegments } from './urlUtils';
+
+const URL_A = 'https://example.com/a.png';
+const URL_B = 'https://example.com/b.png';
+
+const FIELDS = [
+  { id: 'fldUrl', name: 'URL', type: FieldType.Text },
+  { id: 'fldFile', name: 'Files', type: FieldType.Attachment },
+  { id: 'fldStatus', name: 'Status', type: FieldType.Text },
+];
+
+const EXISTING: IOpenAttachment = { token: 'existing-1', name: 'old.png', size: 3, type: 'image/png', timeStamp: 1 };
+
+type FakeResponse = string | Error;
+
+/**
+ * 创建按URL返回固定内容的下载器，代理和直接下载分别配置
+ * @param proxy 通过代理下载时的响应
+ * @param direct 直接下载时的响应
+ */
+function createFetcher(proxy: Record<string, FakeResponse>, direct: Record<string, FakeResponse> = {}) {
+  const calls: { url: string; useProxy: boolean }[] = [];
+  const respond = (responses: Record<string, FakeResponse>, url: string): string => {
+    const response = responses[url];
+    if (response === undefined) {
+      throw new NetworkError('no response', url);
+    }
+    if (response instanceof Error) {
+      throw response;
+    }
+    return response;
+  };
+  const fetcher: ConversionFetcher = {
+    async download(url, useProxy) {
+      calls.push({ url, useProxy });
+      const body = respond(useProxy ? proxy : direct, url);
+      return { blob: new Blob([body], { type: 'image/png' }), contentDisposition: null };
+    },
+    async probe(url) {
+      const body = respond(proxy, url);
+      return { fileName: url.split('/').pop() || '', mimeType: 'image/png', size: body.length };
+    },
+  };
+  return { fetcher, calls };
+}
+
+/**
+ * 文本字段的单元格值
+ * @param text 文本
+ */
+function textCell(text: string): IOpenTextSegment[] {
+  return [{ type: IOpenSegmentType.Text, text }];
+}
+
+/**
+ * 默认任务设置：处理一条记录的一组映射，不重试
+ * @param overrides 需要修改的设置
+ */
+function createSpec(overrides: Partial<ConversionJobSpec> = {}): ConversionJobSpec {
+  return {
+    mode: 'urlToAttachment',
+    recordIds: ['rec1'],
+    mappings: [{ urlFieldId: 'fldUrl', attachmentFieldId: 'fldFile', overwrite: false }],
+    append: false,
+    filePolicy: buildFilePolicy({}),
+    retryPolicy: { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 },
+    concurrency: 1,
+    requestsPerSecond: 1000,
+    ...overrides,
+  };
+}
+
+/**
+ * 使用内存数据表运行一次转换
+ * @param table 数据表
+ * @param fetcher 下载器
+ * @param spec 任务设置
+ */
+async function runEngine(table: FakeTable, fetcher: ConversionFetcher, spec: ConversionJobSpec = createSpec()) {
+  const uploader = createFakeUploader();
+  const events: ConversionEvent[] = [];
+  const engine = createConversionEngine({ table, uploader, fetcher });
+  const summary = await engine.run(spec, { onEvent: event => events.push(event) });
+  const records = events.flatMap(event => (event.type === 'record' ? [event] : []));
+  const logs = events.flatMap(event => (event.type === 'log' ? [event.message] : []));
+  return { summary, records, logs, uploader, events };
+}
+
+describe('createConversionEngine', () => {
+  beforeAll(async () => {
+    await i18next.init({ lng: 'en', resources: { en: { translation: en } } });
+  });
+
+  it('replaces existing attachments when overwriting', async () => {
+    const table = createFakeTable(FIELDS, { rec1: { fldUrl: textCell(URL_A), fldFile: [EXISTING] } });
+    const { fetcher } = createFetcher({ [URL_A]: 'new' });
+    const spec = createSpec({ mappings: [{ urlFieldId: 'fldUrl', attachmentFieldId: 'fldFile', overwrite: true }] });
+
+    const { summary, uploader } = await runEngine(table, fetcher, spec);
+
+    expect(summary.success).toBe(1);
+    expect(uploader.files.map(file => file.name)).toEqual(['a.png']);
+    expect(table.peek('fldFile', 'rec1').map((attachment: IOpenAttachment) => attachment.token)).toEqual(['token-1']);
+  });
+
+  it('keeps existing attachments when appending', async () => {
+    const table = createFakeTable(FIELDS, { rec1: { fldUrl: textCell(URL_A), fldFile: [EXISTING] } });
+    const { fetcher } = createFetcher({ [URL_A]: 'new-content' });
+
+    const { summary } = await runEngine(table, fetcher, createSpec({ append: true }));
+
+    expect(summary.success).toBe(1);
+    expect(table.peek('fldFile', 'rec1').map((attachment: IOpenAttachment) => attachment.token)).toEqual(['existing-1', 'token-1']);
+  });
+
+  it('skips records with attachments when neither overwriting nor appending', async () => {
+    const table = createFakeTable(FIELDS, { rec1: { fldUrl: textCell(URL_A), fldFile: [EXISTING] } });
+    const { fetcher, calls } = createFetcher({ [URL_A]: 'new' });
+
+    const { summary, records } = await runEngine(table, fetcher);
+
+    expect(summary.skipped).toBe(1);
+    expect(records[0].reason).toBe(t('reasonHasAttachments'));
+    expect(calls).toEqual([]);
+    expect(table.peek('fldFile', 'rec1')).toEqual([EXISTING]);
+  });
+
+  it('skips appended files whose content matches an existing attachment', async () => {
+    const table = createFakeTable(FIELDS, { rec1: { fldUrl: textCell(URL_A), fldFile: [EXISTING] } });
+    const { fetcher } = createFetcher({ [URL_A]: 'old', [`${FAKE_ATTACHMENT_URL_PREFIX}existing-1`]: 'old' });
+
+    const { summary, records, uploader } = await runEngine(table, fetcher, createSpec({ append: true }));
+
+    expect(summary.skipped).toBe(1);
+    expect(records[0].reason).toBe(t('reasonDuplicateContent'));
+    expect(uploader.files).toEqual([]);
+  });
+
+  it('skips empty URL cells and fails cells without a valid URL', async () => {
+    const table = createFakeTable(FIELDS, {
+      rec1: { fldUrl: null },
+      rec2: { fldUrl: textCell('not a link') },
+    });
+    const { fetcher } = createFetcher({});
+
+    const { summary, records } = await runEngine(table, fetcher, createSpec({ recordIds: ['rec1', 'rec2'] }));
+
+    expect(summary).toMatchObject({ total: 2, completed: 2, skipped: 1, failed: 1 });
+    expect(records.find(record => record.recordId === 'rec1')?.reason).toBe(t('noUrl'));
+    expect(records.find(record => record.recordId === 'rec2')?.reason).toBe(t('reasonNoValidUrl', { text: 'not a link' }));
+  });
+
+  it('fails when the attachment field is empty after overwriting', async () => {
+    const table = createFakeTable(FIELDS, { rec1: { fldUrl: textCell(URL_A) } });
+    vi.spyOn(table, 'setCellValue').mockResolvedValue(true);
+    const { fetcher } = createFetcher({ [URL_A]: 'new' });
+    const spec = createSpec({ mappings: [{ urlFieldId: 'fldUrl', attachmentFieldId: 'fldFile', overwrite: true }] });
+
+    const { summary, records } = await runEngine(table, fetcher, spec);
+
+    expect(summary.failed).toBe(1);
+    expect(records[0].reason).toBe(t('errorVerify'));
+  });
+
+  it('fails when appended attachments are missing after writing', async () => {
+    const table = createFakeTable(FIELDS, { rec1: { fldUrl: textCell(URL_A), fldFile: [EXISTING] } });
+    vi.spyOn(table, 'setCellValue').mockResolvedValue(true);
+    const { fetcher } = createFetcher({ [URL_A]: 'new-content' });
+
+    const { summary, records } = await runEngine(table, fetcher, createSpec({ append: true }));
+
+    expect(summary.failed).toBe(1);
+    expect(records[0].reason).toBe(t('errorVerifyCount', { expected: 2, actual: 1 }));
+  });
+
+  it('falls back to a direct download when the proxy hits a CORS error', async () => {
+    const table = createFakeTable(FIELDS, { rec1: { fldUrl: textCell(URL_A) } });
+    const { fetcher, calls } = createFetcher({ [URL_A]: new CorsError('blocked', URL_A) }, { [URL_A]: 'direct' });
+
+    const { summary, logs } = await runEngine(table, fetcher);
+
+    expect(summary.success).toBe(1);
+    expect(calls).toEqual([{ url: URL_A, useProxy: true }, { url: URL_A, useProxy: false }]);
+    expect(logs.some(message => message.includes(t('logFallbackDirect')))).toBe(true);
+  });
+
+  it.each([
+    ['the file server returns an error', new UpstreamHttpError(404, 'Not Found', null, undefined, URL_A)],
+    ['the proxy blocks the address', new ProxyError('private address', { status: 403, proxyCode: 'PRIVATE_ADDRESS', blocked: true })],
+  ])('does not fall back when %s', async (_, error) => {
+    const table = createFakeTable(FIELDS, { rec1: { fldUrl: textCell(URL_A) } });
+    const { fetcher, calls } = createFetcher({ [URL_A]: error }, { [URL_A]: 'direct' });
+
+    const { summary } = await runEngine(table, fetcher);
+
+    expect(summary.failed).toBe(1);
+    expect(calls).toEqual([{ url: URL_A, useProxy: true }]);
+  });
+
+  it('reports a network error when neither the proxy nor the file server responds', async () => {
+    const table = createFakeTable(FIELDS, { rec1: { fldUrl: textCell(URL_A) } });
+    const { fetcher, calls } = createFetcher(
+      { [URL_A]: new ProxyError('Failed to fetch', { url: URL_A }) },
+      { [URL_A]: new CorsError('Failed to fetch', URL_A) }
+    );
+
+    const { summary, records } = await runEngine(table, fetcher);
+
+    expect(summary.failed).toBe(1);
+    expect(calls).toEqual([{ url: URL_A, useProxy: true }, { url: URL_A, useProxy: false }]);
+    expect(records[0].reason).toContain(t('errorNetwork', { detail: 'Failed to fetch' }));
+  });
+
+  it('writes the files that downloaded when some URLs fail', async () => {
+    const table = createFakeTable(FIELDS, { rec1: { fldUrl: textCell(`${URL_A}\n${URL_B}`) } });
+    const { fetcher } = createFetcher({ [URL_A]: 'a' });
+
+    const { summary, records } = await runEngine(table, fetcher);
+
+    expect(summary.success).toBe(1);
+    expect(records[0].reason).toBe(t('reasonPartialFailure', { urls: URL_B }));
+    expect(table.peek('fldFile', 'rec1')).toHaveLength(1);
+  });
+
+  it('uploads the original image when processing fails, unless EXIF must be removed', async () => {
+    vi.stubGlobal('createImageBitmap', vi.fn().mockRejectedValue(new Error('decode failed')));
+    const run = (stripExif: boolean) => runEngine(
+      createFakeTable(FIELDS, { rec1: { fldUrl: textCell(URL_A) } }),
+      createFetcher({ [URL_A]: 'image' }).fetcher,
+      createSpec({ imageOptions: { format: 'image/jpeg', stripExif } })
+    );
+
+    try {
+      const converted = await run(false);
+      expect(converted.summary.success).toBe(1);
+      expect(converted.uploader.files.map(file => file.type)).toEqual(['image/png']);
+
+      const stripped = await run(true);
+      expect(stripped.summary.failed).toBe(1);
+      expect(stripped.uploader.files).toEqual([]);
+      expect(stripped.records[0].reason).toContain(t('errorImageProcessing', { detail: 'decode failed' }));
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('writes attachment links to the URL field in reverse mode', async () => {
+    const table = createFakeTable(FIELDS, { rec1: { fldFile: [EXISTING] } });
+    const { fetcher, calls } = createFetcher({});
+    const spec = createSpec({ mode: 'attachmentToUrl', targetFieldType: FieldType.Text });
+
+    const { summary } = await runEngine(table, fetcher, spec);
+
+    expect(summary.success).toBe(1);
+    expect(summary.mappings).toEqual([{ success: 1, failed: 0, skipped: 0 }]);
+    expect(calls).toEqual([]);
+    expect(getCellTextSegments(table.peek('fldUrl', 'rec1')).join('')).toBe(`${FAKE_ATTACHMENT_URL_PREFIX}existing-1`);
+  });
+
+  it('plans actions without downloading or writing in a dry run', async () => {
+    const table = createFakeTable(FIELDS, { rec1: { fldUrl: textCell(URL_A) } });
+    const { fetcher, calls } = createFetcher({ [URL_A]: 'content' });
+
+    const { summary, uploader } = await runEngine(table, fetcher, createSpec({ dryRun: true }));
+
+    expect(summary.previewRows).toMatchObject([{ recordId: 'rec1', action: 'add', estimatedSize: 7 }]);
+    expect(calls).toEqual([]);
+    expect(uploader.files).toEqual([]);
+    expect(table.peek('fldFile', 'rec1')).toBeNull();
+  });
+
+  it('reports results, progress and status field values for every record', async () => {
+    const table = createFakeTable(FIELDS, {
+      rec1: { fldUrl: textCell(URL_A) },
+      rec2: { fldUrl: null },
+    });
+    const { fetcher } = createFetcher({ [URL_A]: 'a' });
+    const uploader = createFakeUploader();
+    const events: ConversionEvent[] = [];
+    const engine = createConversionEngine({ table, uploader, fetcher });
+
+    await engine.run(createSpec({ recordIds: ['rec1', 'rec2', undefined] }), {
+      statusWriter: { buildRecordValue: status => ({ fields: { fldStatus: textCell(status) } }) },
+      onEvent: event => events.push(event),
+    });
+
+    const records = events.flatMap(event => (event.type === 'record' ? [event] : []));
+    expect(records.map(({ recordId, status }) => [recordId, status])).toEqual([
+      ['rec1', 'success'],
+      ['rec2', 'skipped'],
+      [undefined, 'skipped'],
+    ]);
+    expect(records[0].urls).toEqual([URL_A]);
+    const progress = events.flatMap(event => (event.type === 'progress' ? [event.progress] : []));
+    expect(progress.map(({ completed }) => completed)).toEqual([1, 2, 3]);
+    expect(progress[2].mappings).toEqual([{ success: 1, failed: 0, skipped: 1 }]);
+    expect(getCellTextSegments(table.peek('fldStatus', 'rec1')).join('')).toBe('success');
+    expect(getCellTextSegments(table.peek('fldStatus', 'rec2')).join('')).toBe('skipped');
+  });
+
+  it('does not count mappings of a record cancelled midway', async () => {
+    const table = createFakeTable(
+      [...FIELDS, { id: 'fldUrl2', name: 'URL 2', type: FieldType.Text }, { id: 'fldFile2', name: 'Files 2', type: FieldType.Attachment }],
+      { rec1: { fldUrl: textCell(URL_A), fldUrl2: textCell(URL_B) } }
+    );
+    const control = createJobControl();
+    const { fetcher } = createFetcher({ [URL_A]: 'a', [URL_B]: 'b' });
+    // 第二组映射下载完成时取消任务
+    const download = fetcher.download;
+    fetcher.download = async (url, ...rest) => {
+      if (url === URL_B) {
+        control.cancel();
+      }
+      return download(url, ...rest);
+    };
+    const engine = createConversionEngine({ table, uploader: createFakeUploader(), fetcher });
+
+    const summary = await engine.run(createSpec({
+      mappings: [
+        { urlFieldId: 'fldUrl', attachmentFieldId: 'fldFile', overwrite: false },
+        { urlFieldId: 'fldUrl2', attachmentFieldId: 'fldFile2', overwrite: false },
+      ],
+    }), { control });
+
+    expect(summary.cancelled).toBe(true);
+    expect(summary.completed).toBe(0);
+    expect(summary.mappings).toEqual([
+      { success: 0, failed: 0, skipped: 0 },
+      { success: 0, failed: 0, skipped: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,932 @@
+/**
+ * 转换引擎
+ * 与界面无关的转换流程：提取URL、下载、上传、按覆盖或追加合并附件、写入并校验，以及反向模式和预览
+ * 数据表、下载和上传通过适配器注入，日志、每条记录的结果和进度以事件的形式通知调用方
+ */
+
+import { FieldType, IOpenAttachment, IRecordValue } from '@lark-base-open/js-sdk';
+import { t } from 'i18next';
+import {
+  downloadFileFromUrl,
+  getExtensionFromMimeType,
+  isValidUrl,
+  probeFileFromUrl,
+  resolveFileInfo,
+  DownloadOptions,
+  DownloadResult,
+  ProbeResult,
+} from './fileUtils';
+import {
+  getErrorMessage,
+  CorsError,
+  ImageProcessingError,
+  NetworkError,
+  NotAFileError,
+  ProxyError,
+  UploadError,
+  UpstreamHttpError,
+  VerifyError,
+} from './errors';
+import { assertFileSizeAllowed, assertFileTypeAllowed, FilePolicy, FilePolicyError } from './filePolicy';
+import { HeaderRule } from './headerRules';
+import { ImageProcessingOptions, isImageProcessingEnabled, processImage } from './imageProcessing';
+import { createUploadCache, hashBlob, UploadItem } from './uploadCache';
+import { extractUrlsFromCellValue, getCellTextSegments } from './urlUtils';
+import { createRateLimiter, runWithConcurrency } from './concurrency';
+import { createJobControl, JobControl } from './jobControl';
+import { withRetry, RetryInfo, RetryPolicy } from './retry';
+import { planAction, sortPreviewRows, PreviewRow, PreviewUrl, PLANNED_ACTION_LABEL_KEYS } from './preview';
+import { buildUrlCellValue, UrlExportMode } from './attachmentUrls';
+import { combineMappingResults, FieldMapping, MappingResult } from './fieldMappings';
+import { ConvertMode, RecordStatus } from './jobStore';
+import { StatusFieldWriter } from './statusFields';
+import { dedupeFileNames, renderFileNameTemplate, splitFileName } from './fileNameTemplate';
+import { LogLevel } from './logStore';
+
+// 默认并发数和每秒请求上限
+export const DEFAULT_CONCURRENCY = 3;
+export const DEFAULT_REQUESTS_PER_SECOND = 5;
+
+type LogFn = (level: LogLevel, message: string, data?: any) => void;
+
+// 单条记录的处理结果（cancelled表示任务取消时该记录尚未写入）
+type RecordOutcome = RecordStatus | 'cancelled';
+
+interface ProcessResult {
+  status: RecordOutcome;
+  /** 失败或跳过的原因 */
+  reason?: string;
+}
+
+// 准备上传的文件：新下载的文件带有blob，本任务中已上传过的URL只有元数据
+interface PreparedFile {
+  url: string;
+  hash: string | null;
+  /** 原始文件名（应用文件名模板之前） */
+  name: string;
+  size: number;
+  type: string;
+  blob?: Blob;
+}
+
+/**
+ * 引擎使用的数据表接口，ITable 满足该接口，测试中使用内存实现
+ */
+export interface ConversionTable {
+  getCellValue(fieldId: string, recordId: string): Promise<any>;
+  getCellString(fieldId: string, recordId: string): Promise<string>;
+  getCellAttachmentUrls(tokens: string[], fieldId: string, recordId: string): Promise<string[]>;
+  setCellValue(fieldId: string, recordId: string, cellValue: any): Promise<boolean>;
+  setRecord(recordId: string, recordValue?: IRecordValue): Promise<unknown>;
+}
+
+/**
+ * 下载文件和探测文件信息，默认使用 fileUtils 中的实现（通过代理或直接下载）
+ */
+export interface ConversionFetcher {
+  download(
+    url: string,
+    useProxy: boolean,
+    onLog: (level: 'info' | 'warn' | 'error', message: string, data?: any) => void,
+    options: DownloadOptions
+  ): Promise<DownloadResult>;
+  probe(url: string, options: DownloadOptions): Promise<ProbeResult>;
+}
+
+/**
+ * 上传文件，返回与文件顺序一致的token
+ */
+export interface ConversionUploader {
+  upload(files: File[]): Promise<string[]>;
+}
+
+export interface ConversionAdapters {
+  table: ConversionTable;
+  uploader: ConversionUploader;
+  fetcher?: ConversionFetcher;
+}
+
+export const DEFAULT_FETCHER: ConversionFetcher = {
+  download: downloadFileFromUrl,
+  probe: probeFileFromUrl,
+};
+
+/**
+ * 转换任务的设置，表单校验、记录范围和文件名模板字段都由调用方解析好
+ */
+export interface ConversionJobSpec {
+  mode: ConvertMode;
+  /** 需要处理的记录，记录ID缺失的项会被跳过 */
+  recordIds: (string | undefined)[];
+  /** 字段映射，反向模式只使用第一组 */
+  mappings: FieldMapping[];
+  /** 不覆盖时追加到已有附件之后 */
+  append: boolean;
+  /** 只预览，不下载和写入 */
+  dryRun?: boolean;
+  /** 反向模式：导出第一个或所有附件的链接 */
+  urlExportMode?: UrlExportMode;
+  /** 反向模式：写入的URL字段的类型（Text或Url） */
+  targetFieldType?: FieldType;
+  fileNameTemplate?: string;
+  /** 文件名模板引用的字段名 -> 字段ID */
+  templateFields?: { name: string; id: string }[];
+  /** 记录在任务中的序号，继续任务或重试时保持不变，用于文件名模板的 {{index}} */
+  recordIndex?: Map<string, number>;
+  imageOptions?: ImageProcessingOptions;
+  filePolicy: FilePolicy;
+  allowHtml?: boolean;
+  retryPolicy: RetryPolicy;
+  headerRules?: HeaderRule[];
+  /** 授权码，同时用于对代理请求签名 */
+  authCode?: string;
+  concurrency?: number;
+  /** 每秒请求数，用于限制上传和写入飞书的频率 */
+  requestsPerSecond?: number;
+}
+
+export interface MappingCounts {
+  success: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface ConversionProgress {
+  total: number;
+  /** 已完成的记录数（不含取消时尚未写入的记录） */
+  completed: number;
+  success: number;
+  failed: number;
+  skipped: number;
+  /** 每组映射的处理结果计数 */
+  mappings: MappingCounts[];
+}
+
+export interface ConversionSummary extends ConversionProgress {
+  /** 经过重试才成功的记录数 */
+  retriedSuccess: number;
+  cancelled: boolean;
+  /** 预览结果（已排序），只在预览时有内容 */
+  previewRows: PreviewRow[];
+}
+
+/**
+ * - log: 日志，recordId 用于按记录过滤和分组
+ * - record: 一条记录处理完成，urls 为主映射中提取到的URL
+ * - progress: 进度更新
+ */
+export type ConversionEvent =
+  | { type: 'log'; level: LogLevel; message: string; data?: any; recordId?: string }
+  | { type: 'record'; recordId?: string; index: number; status: RecordStatus; reason?: string; urls?: string[] }
+  | { type: 'progress'; progress: ConversionProgress };
+
+export interface ConversionRunOptions {
+  /** 任务控制器，用于暂停、继续和取消，未指定时创建新的控制器 */
+  control?: JobControl;
+  /** 状态字段和错误原因字段的写入器，预览时不写入 */
+  statusWriter?: StatusFieldWriter | null;
+  onEvent?: (event: ConversionEvent) => void;
+}
+
+export interface ConversionEngine {
+  run(spec: ConversionJobSpec, options?: ConversionRunOptions): Promise<ConversionSummary>;
+}
+
+/**
+ * 创建转换引擎
+ * @param adapters 数据表、上传和下载适配器
+ * @returns ConversionEngine
+ */
+export function createConversionEngine(adapters: ConversionAdapters): ConversionEngine {
+  const { table, uploader, fetcher = DEFAULT_FETCHER } = adapters;
+
+  const run = async (spec: ConversionJobSpec, options: ConversionRunOptions = {}): Promise<ConversionSummary> => {
+    const { mappings, append, recordIds, retryPolicy, filePolicy, fileNameTemplate, templateFields = [] } = spec;
+    const reverse = spec.mode === 'attachmentToUrl';
+    const dryRun = !!spec.dryRun;
+    const urlExportMode = spec.urlExportMode || 'all';
+    const imageOptions = spec.imageOptions;
+    const imageProcessing = !!imageOptions && isImageProcessingEnabled(imageOptions);
+    const control = options.control ?? createJobControl();
+    const statusWriter = dryRun ? null : options.statusWriter;
+    const emit = options.onEvent ?? (() => undefined);
+    const addLog = (level: LogLevel, message: string, data?: any, recordId?: string) => {
+      emit({ type: 'log', level, message, data, recordId });
+    };
+    const total = recordIds.length;
+
+    // 计数器在所有worker之间共享，每条记录完成后统一通知进度
+    const counts: Record<RecordOutcome, number> & { completed: number; retriedSuccess: number } = {
+      completed: 0,
+      retriedSuccess: 0,
+      success: 0,
+      failed: 0,
+      skipped: 0,
+      cancelled: 0,
+    };
+    const mappingCounts: MappingCounts[] = mappings.map(() => ({ success: 0, failed: 0, skipped: 0 }));
+    const getProgress = (): ConversionProgress => ({
+      total,
+      completed: counts.completed,
+      success: counts.success,
+      failed: counts.failed,
+      skipped: counts.skipped,
+      mappings: mappingCounts.map(mapping => ({ ...mapping })),
+    });
+
+    const workerCount = Math.max(1, Math.floor(Number(spec.concurrency)) || DEFAULT_CONCURRENCY);
+    const rateLimit = Math.max(1, Number(spec.requestsPerSecond) || DEFAULT_REQUESTS_PER_SECOND);
+    const waitForRateLimit = createRateLimiter(rateLimit);
+
+    addLog('info', t('logProcessStart', { total, concurrency: workerCount, rate: rateLimit }));
+
+    // 任务级上传缓存：按URL和内容哈希复用已上传文件的token
+    const uploadCache = createUploadCache();
+
+    // 主映射中提取到的URL，随记录结果一起通知调用方
+    const extractedUrls = new Map<string, string[]>();
+
+    const downloadOptions: DownloadOptions = {
+      signal: control.signal,
+      authCode: spec.authCode,
+      headerRules: spec.headerRules,
+      filePolicy,
+      allowHtml: !!spec.allowHtml,
+    };
+
+    // 下载或上传过程中发生过重试的记录
+    const retriedRecordIds = new Set<string>();
+
+    // 创建重试回调：记录每次失败和等待时间，并标记该记录发生过重试
+    const createRetryLogger = (recordId: string, log: LogFn, action: string) => (
+      ({ attempt, maxAttempts, delay, error }: RetryInfo) => {
+        retriedRecordIds.add(recordId);
+        log('warn', t('logRetry', { action, attempt, maxAttempts, detail: error?.message || String(error), delay: (delay / 1000).toFixed(1) }));
+      }
+    );
+
+    // 下载单个URL：优先通过代理下载，CORS或代理问题时回退到直接下载
+    const downloadWithFallback = async (url: string, log: LogFn): Promise<DownloadResult> => {
+      try {
+        log('info', t('logTryProxyFirst'));
+        const result = await fetcher.download(url, true, log, downloadOptions);
+        log('success', t('logDownloadSuccess', { size: (result.blob.size / 1024).toFixed(2), type: result.blob.type || t('fileTypeUnknown') }));
+        return result;
+      } catch (error: any) {
+        // 任务已取消、文件被过滤规则拒绝、下载到的不是文件，或代理和直接下载都没有响应，不再尝试其他下载方式
+        if (control.cancelled || error instanceof FilePolicyError || error instanceof NotAFileError || error instanceof NetworkError) {
+          throw error;
+        }
+        // 目标服务器返回了错误状态，换一种下载方式也不会成功
+        if (error instanceof UpstreamHttpError) {
+          log('error', t('logUpstreamError', { status: error.status }));
+          throw error;
+        }
+        // 跨域限制或代理本身的问题（被目标地址策略拒绝的除外）
+        if (error instanceof CorsError || (error instanceof ProxyError && !error.blocked)) {
+          log('info', t('logFallbackDirect'));
+          let result: DownloadResult;
+          try {
+            result = await fetcher.download(url, false, log, downloadOptions);
+          } catch (directError: any) {
+            // 代理没有任何响应（没有状态码），直接下载也失败，按网络错误处理以便重试
+            if (directError instanceof CorsError && error instanceof ProxyError && error.status === undefined) {
+              throw new NetworkError(directError.params.detail as string, url);
+            }
+            throw directError;
+          }
+          log('success', t('logDirectSuccess', { size: (result.blob.size / 1024).toFixed(2) }));
+          return result;
+        }
+        throw error;
+      }
+    };
+
+    // 计算记录中已有附件的内容哈希，只下载与新文件大小相同的附件进行比对
+    const getExistingAttachmentHashes = async (
+      recordId: string,
+      attachmentFieldId: string,
+      attachments: IOpenAttachment[],
+      sizes: Set<number>,
+      log: LogFn
+    ): Promise<Set<string>> => {
+      const hashes = new Set<string>();
+      const unknownTokens: string[] = [];
+      for (const attachment of attachments) {
+        if (!attachment?.token || !sizes.has(attachment.size)) continue;
+        // 本任务上传过的文件已知哈希，无需重新下载
+        const knownHash = uploadCache.getHashByToken(attachment.token);
+        if (knownHash) {
+          hashes.add(knownHash);
+        } else {
+          unknownTokens.push(attachment.token);
+        }
+      }
+
+      if (unknownTokens.length > 0) {
+        log('info', t('logDownloadExisting', { count: unknownTokens.length }));
+        try {
+          const attachmentUrls = await table.getCellAttachmentUrls(unknownTokens, attachmentFieldId, recordId);
+          for (const attachmentUrl of attachmentUrls) {
+            const { blob } = await downloadWithFallback(attachmentUrl, log);
+            const hash = await hashBlob(blob);
+            if (hash) hashes.add(hash);
+          }
+        } catch (error: any) {
+          log('warn', t('logReadExistingFailed', { detail: error?.message || String(error) }));
+        }
+      }
+      return hashes;
+    };
+
+    // 写入附件后重新读取附件字段，确认新附件已写入
+    const verifyAttachments = async (
+      recordId: string,
+      mapping: FieldMapping,
+      fileTokens: string[],
+      existingCount: number,
+      log: LogFn
+    ): Promise<VerifyError | null> => {
+      const { attachmentFieldId, overwrite } = mapping;
+      log('info', t('logVerifying'));
+      const attachments = await table.getCellValue(attachmentFieldId, recordId);
+      log('info', t('logVerifyValue'), attachments);
+
+      // 字段为空或无法读取：覆盖模式下应该至少有一个附件；追加模式下写入调用已成功，仍然认为可能成功
+      if (!attachments || !Array.isArray(attachments)) {
+        if (overwrite) {
+          log('error', t('logVerifyEmptyOverwrite'));
+          return new VerifyError();
+        }
+        log('warn', t('logVerifyUnavailable'));
+        return null;
+      }
+
+      // 检查新附件是否都在列表中
+      if (fileTokens.every(token => attachments.some((att: any) => att && att.token === token))) {
+        log('success', t('logVerified', { count: fileTokens.length }));
+        return null;
+      }
+
+      if (attachments.length === 0) {
+        const error = new VerifyError();
+        log('error', `⚠ ${error.message}`);
+        return error;
+      }
+
+      // 附件列表不为空但找不到新附件，可能是token不匹配，按数量判断
+      const expectedCount = overwrite ? fileTokens.length : existingCount + fileTokens.length;
+      if (attachments.length >= expectedCount) {
+        log('success', t('logVerifiedCount', { actual: attachments.length, expected: expectedCount }));
+        return null;
+      }
+      const error = new VerifyError(expectedCount, attachments.length);
+      log('error', `⚠ ${error.message}`, attachments);
+      return error;
+    };
+
+    // 处理记录中的一组字段映射，返回该映射的处理结果
+    const processMapping = async (
+      recordId: string,
+      currentIndex: number,
+      mapping: FieldMapping,
+      mappingIndex: number,
+      recordLog: LogFn
+    ): Promise<ProcessResult> => {
+      const { urlFieldId, attachmentFieldId, overwrite } = mapping;
+      // 记录最近一条错误日志，作为失败原因保存
+      let lastError: string | undefined;
+      // 多组映射时为每条日志加上映射序号
+      const mappingPrefix = mappings.length > 1 ? t('logMappingPrefix', { index: mappingIndex + 1, total: mappings.length }) : '';
+      const log: LogFn = (level, message, data) => {
+        if (level === 'error') {
+          lastError = message;
+        }
+        recordLog(level, `${mappingPrefix}${message}`, data);
+      };
+
+      try {
+        const urlValue = await table.getCellValue(urlFieldId, recordId);
+        log('info', t('logUrlCellValue'), urlValue);
+
+        // 提取单元格中的所有URL（支持多个链接段、换行或逗号分隔），按原始顺序去重
+        const urls = extractUrlsFromCellValue(urlValue);
+
+        // 如果没有提取到URL，区分单元格为空和内容无效两种情况
+        if (urls.length === 0) {
+          const cellText = getCellTextSegments(urlValue).join('').trim();
+          if (!cellText) {
+            log('warn', t('logUrlEmptySkip'));
+            return { status: 'skipped', reason: t('noUrl') };
+          }
+          log('error', t('reasonNoValidUrl', { text: cellText }));
+          return { status: 'failed', reason: lastError };
+        }
+
+        log('info', t('logUrlsExtracted', { count: urls.length }), urls);
+        // URL快照只记录主映射的URL
+        if (mappingIndex === 0) {
+          extractedUrls.set(recordId, urls);
+        }
+
+        const currentAttachments = await table.getCellValue(attachmentFieldId, recordId);
+        log('info', t('logAttachmentCellValue'), currentAttachments);
+        const existingAttachments: IOpenAttachment[] = Array.isArray(currentAttachments) ? currentAttachments : [];
+
+        // 如果已有附件且既不覆盖也不追加，跳过
+        if (!overwrite && !append && existingAttachments.length > 0) {
+          log('info', t('logHasAttachmentsSkip', { count: existingAttachments.length }));
+          return { status: 'skipped', reason: t('reasonHasAttachments') };
+        }
+        const appendMode = !overwrite && existingAttachments.length > 0;
+
+        // 逐个下载文件，单个URL失败只影响该URL
+        // 本任务中已上传过的URL直接复用上传结果，不再重复下载
+        const preparedFiles: PreparedFile[] = [];
+        const failedUrls: string[] = [];
+        // 下载失败的原因，所有URL都失败时作为记录的失败原因
+        const failedReasons: string[] = [];
+        // 被过滤规则拒绝的URL及原因
+        const rejectedReasons: string[] = [];
+        for (let urlIndex = 0; urlIndex < urls.length; urlIndex++) {
+          const url = urls[urlIndex];
+          const urlLabel = `[URL ${urlIndex + 1}/${urls.length}]`;
+
+          if (!isValidUrl(url)) {
+            log('error', t('logInvalidUrl', { label: urlLabel, url }));
+            failedUrls.push(url);
+            failedReasons.push(t('reasonInvalidUrl', { url }));
+            continue;
+          }
+
+          const cached = uploadCache.getByUrl(url);
+          if (cached) {
+            log('info', t('logUploadCacheHit', { label: urlLabel, token: cached.token }));
+            preparedFiles.push({ url, hash: cached.hash, name: cached.name, size: cached.size, type: cached.type });
+            continue;
+          }
+
+          try {
+            log('info', t('logUrlDownloadStart', { label: urlLabel, url }));
+            const { blob, contentDisposition } = await withRetry(attempt => {
+              if (attempt > 1) {
+                log('info', t('logDownloadAttempt', { label: urlLabel, attempt, maxAttempts: retryPolicy.maxAttempts }));
+              }
+              return downloadWithFallback(url, log);
+            }, { policy: retryPolicy, signal: control.signal, onRetry: createRetryLogger(recordId, log, t('retryActionDownload', { label: urlLabel })) });
+            // 文件名依次取自Content-Disposition、URL路径，缺少扩展名时根据MIME类型或文件魔数补齐
+            let { fileName, mimeType } = await resolveFileInfo(url, blob, contentDisposition);
+            let fileBlob = blob;
+
+            // 按识别出的实际类型执行过滤规则
+            assertFileTypeAllowed(filePolicy, mimeType, fileName);
+            assertFileSizeAllowed(filePolicy, blob.size, mimeType, fileName);
+
+            // 图片处理失败时上传原始文件；开启去掉EXIF时原始文件带有元数据，该URL按失败处理
+            if (imageOptions && imageProcessing) {
+              try {
+                const processed = await processImage(blob, mimeType, imageOptions);
+                if (processed) {
+                  log('info', t('logImageProcessed', {
+                    label: urlLabel,
+                    from: (blob.size / 1024).toFixed(2),
+                    to: (processed.blob.size / 1024).toFixed(2),
+                    width: processed.width,
+                    height: processed.height,
+                    mimeType: processed.mimeType,
+                  }));
+                  // 格式转换后同步修改扩展名
+                  if (processed.mimeType !== mimeType) {
+                    const extension = getExtensionFromMimeType(processed.mimeType);
+                    fileName = extension ? `${splitFileName(fileName).baseName}.${extension}` : fileName;
+                  }
+                  fileBlob = processed.blob;
+                  mimeType = processed.mimeType;
+                }
+              } catch (error: any) {
+                if (imageOptions.stripExif) {
+                  throw new ImageProcessingError(error?.message || String(error), url);
+                }
+                log('warn', t('logImageProcessFailed', { label: urlLabel, detail: error?.message || String(error) }));
+              }
+            }
+
+            const hash = await hashBlob(fileBlob);
+            log('info', t('logFileInfo', { label: urlLabel, fileName, hash: hash || t('unavailable') }));
+            preparedFiles.push({ url, hash, name: fileName, size: fileBlob.size, type: mimeType, blob: fileBlob });
+          } catch (error: any) {
+            if (control.cancelled) {
+              log('warn', t('logUrlCancelled', { label: urlLabel }));
+              return { status: 'cancelled' };
+            }
+            if (error instanceof FilePolicyError) {
+              log('warn', t('logUrlRejected', { label: urlLabel, detail: error.message }));
+              rejectedReasons.push(getErrorMessage(error, t));
+              continue;
+            }
+            if (error instanceof NotAFileError) {
+              log('error', t('logUrlNotAFile', { label: urlLabel, detail: error.message }));
+            } else if (error instanceof ImageProcessingError) {
+              log('error', t('logImageStripFailed', { label: urlLabel, detail: error.message }));
+            } else {
+              log('error', t('logUrlDownloadFailed', { label: urlLabel, detail: error?.message || String(error) }));
+            }
+            failedUrls.push(url);
+            failedReasons.push(getErrorMessage(error, t));
+          }
+        }
+
+        // 所有URL都被过滤规则拒绝时，该记录跳过
+        if (preparedFiles.length === 0 && failedUrls.length === 0) {
+          log('warn', t('logAllRejected'));
+          return { status: 'skipped', reason: rejectedReasons.join('; ') };
+        }
+
+        // 所有URL都下载失败时，该记录失败
+        if (preparedFiles.length === 0) {
+          log('error', t('logAllFailed'));
+          return { status: 'failed', reason: failedReasons.join('; ') };
+        }
+
+        // 同一记录中内容相同的文件只附加一次；追加模式下还要跳过与已有附件内容相同的文件
+        const seenHashes = appendMode
+          ? await getExistingAttachmentHashes(
+            recordId,
+            attachmentFieldId,
+            existingAttachments,
+            new Set(preparedFiles.map(file => file.size)),
+            log
+          )
+          : new Set<string>();
+        const uniqueFiles = preparedFiles.filter(file => {
+          if (!file.hash) return true;
+          if (seenHashes.has(file.hash)) {
+            log('info', t('logDuplicateContent', { url: file.url }));
+            return false;
+          }
+          seenHashes.add(file.hash);
+          return true;
+        });
+        if (uniqueFiles.length === 0) {
+          log('info', t('logAllDuplicateSkip'));
+          return { status: 'skipped', reason: t('reasonDuplicateContent') };
+        }
+
+        // 任务已取消时不再上传和写入附件
+        if (control.cancelled) {
+          log('warn', t('logCancelledNotWritten'));
+          return { status: 'cancelled' };
+        }
+
+        let fileTokens: string[];
+        let fileNames: string[];
+        try {
+          // 配置了文件名模板时，使用记录的字段值生成文件名
+          fileNames = uniqueFiles.map(({ name }) => name);
+          if (fileNameTemplate) {
+            const fieldValues: Record<string, string> = {};
+            await Promise.all(templateFields.map(async ({ name, id }) => {
+              fieldValues[name] = await table.getCellString(id, recordId);
+            }));
+            const date = new Date();
+            fileNames = fileNames.map((originalFileName, fileIndex) => renderFileNameTemplate(fileNameTemplate, {
+              fields: fieldValues,
+              index: spec.recordIndex?.get(recordId) ?? currentIndex,
+              fileIndex: fileIndex + 1,
+              date,
+              originalFileName,
+            }));
+          }
+
+          // 同一记录中的重复文件名添加序号后缀
+          fileNames = dedupeFileNames(fileNames);
+
+          // 将Blob转换为File对象，保持URL的原始顺序
+          const uploadItems: UploadItem[] = uniqueFiles.map((prepared, fileIndex) => ({
+            url: prepared.url,
+            hash: prepared.hash,
+            name: prepared.name,
+            size: prepared.size,
+            type: prepared.type,
+            file: prepared.blob && new File([prepared.blob], fileNames[fileIndex], { type: prepared.type }),
+          }));
+
+          // 已上传过的URL或相同内容直接复用token
+          const { tokens, reused } = await uploadCache.upload(uploadItems, files => withRetry(async attempt => {
+            log('info', attempt > 1
+              ? t('logUploadStartAttempt', { count: files.length, attempt, maxAttempts: retryPolicy.maxAttempts })
+              : t('logUploadStart', { count: files.length }));
+            await waitForRateLimit();
+            const uploaded = await uploader.upload(files);
+            log('info', t('logUploadApiDone'), uploaded);
+            return uploaded;
+          }, { policy: retryPolicy, signal: control.signal, onRetry: createRetryLogger(recordId, log, t('retryActionUpload')) }));
+          fileTokens = tokens;
+          const reusedCount = reused.filter(Boolean).length;
+          log('success', reusedCount > 0
+            ? t('logUploadSuccessReused', { count: fileTokens.length, reused: reusedCount })
+            : t('logUploadSuccess', { count: fileTokens.length }));
+        } catch (error: any) {
+          if (control.cancelled) {
+            log('warn', t('logCancelledNotWritten'));
+            return { status: 'cancelled' };
+          }
+          const uploadError = new UploadError(error?.message || String(error), 'upload', error?.status);
+          log('error', uploadError.message, {
+            message: error?.message,
+            stack: error?.stack,
+            name: error?.name,
+          });
+          return { status: 'failed', reason: getErrorMessage(uploadError, t) };
+        }
+
+        const attachmentItems: IOpenAttachment[] = uniqueFiles.map((prepared, index) => ({
+          token: fileTokens[index],
+          name: fileNames[index],
+          size: prepared.size,
+          type: prepared.type,
+          timeStamp: Date.now(),
+        }));
+        log('info', t('logAttachmentItems'), attachmentItems);
+
+        // 覆盖或为空时写入新附件，否则追加到已有附件之后（补齐已有附件缺少的属性）
+        let attachmentsToSet: IOpenAttachment[];
+        if (!appendMode) {
+          attachmentsToSet = attachmentItems;
+          log('info', t('logOverwriteSet'));
+        } else {
+          const normalizedExisting = existingAttachments.map((att: any) => (
+            att && typeof att === 'object' && att.token
+              ? {
+                token: att.token,
+                name: att.name || 'file',
+                size: att.size || 0,
+                type: att.type || 'application/octet-stream',
+                timeStamp: att.timeStamp || Date.now(),
+              }
+              : att
+          ));
+          attachmentsToSet = [...normalizedExisting, ...attachmentItems];
+          log('info', t('logAppendSet', { existing: normalizedExisting.length, added: attachmentItems.length }));
+        }
+        log('info', t('logSetCellPrepare', { count: attachmentsToSet.length }), attachmentsToSet);
+
+        try {
+          const setResult = await withRetry(async attempt => {
+            log('info', attempt > 1
+              ? t('logSetCellAttempt', { attempt, maxAttempts: retryPolicy.maxAttempts })
+              : t('logSetCell'));
+            await waitForRateLimit();
+            return table.setCellValue(attachmentFieldId, recordId, attachmentsToSet);
+          }, { policy: retryPolicy, signal: control.signal, onRetry: createRetryLogger(recordId, log, t('retryActionWrite')) });
+          log('info', t('logSetCellDone', { result: String(setResult) }));
+        } catch (setError: any) {
+          // 任务在等待重试时被取消
+          if (control.cancelled) {
+            return { status: 'cancelled' };
+          }
+          const writeError = new UploadError(setError?.message || String(setError), 'write', setError?.status);
+          log('error', `❌ ${writeError.message}`, {
+            message: setError?.message,
+            name: setError?.name,
+            stack: setError?.stack,
+          });
+          return { status: 'failed', reason: getErrorMessage(writeError, t) };
+        }
+
+        const verifyError = await verifyAttachments(recordId, mapping, fileTokens, existingAttachments.length, log);
+        if (verifyError) {
+          return { status: 'failed', reason: getErrorMessage(verifyError, t) };
+        }
+        if (failedUrls.length > 0) {
+          log('warn', t('logPartialFailure', { failed: failedUrls.length, total: urls.length }), failedUrls);
+          return { status: 'success', reason: t('reasonPartialFailure', { urls: failedUrls.join(', ') }) };
+        }
+        return { status: 'success' };
+      } catch (error: any) {
+        log('error', t('logRecordError', { detail: error?.message || String(error) }), error);
+        return { status: 'failed', reason: lastError };
+      }
+    };
+
+    // 处理单条记录：依次处理所有字段映射，返回合并后的处理结果
+    const processRecord = async (recordId: string | undefined, index: number): Promise<ProcessResult> => {
+      const currentIndex = index + 1;
+      // 并发处理时日志会交错，为每条日志加上记录序号前缀
+      const log: LogFn = (level, message, data) => {
+        addLog(level, `[${currentIndex}/${total}] ${message}`, data, recordId);
+      };
+
+      if (!recordId) {
+        log('warn', t('logNoRecordIdSkip'));
+        return { status: 'skipped', reason: t('reasonNoRecordId') };
+      }
+
+      log('info', t('logRecordStart', { recordId }));
+
+      const results: MappingResult[] = [];
+      for (let mappingIndex = 0; mappingIndex < mappings.length; mappingIndex++) {
+        const result = await processMapping(recordId, currentIndex, mappings[mappingIndex], mappingIndex, log);
+        if (result.status === 'cancelled') {
+          return result;
+        }
+        results.push({ status: result.status, reason: result.reason });
+      }
+      // 整条记录处理完成后才计入每组映射的统计，中途取消的记录不计入
+      results.forEach((result, mappingIndex) => {
+        mappingCounts[mappingIndex][result.status]++;
+      });
+      return combineMappingResults(results);
+    };
+
+    // 反向模式：获取附件的链接，写入文本或URL字段（只使用第一组字段映射）
+    const exportUrls = async (recordId: string | undefined, index: number): Promise<ProcessResult> => {
+      const { urlFieldId, attachmentFieldId, overwrite } = mappings[0];
+      const currentIndex = index + 1;
+      let lastError: string | undefined;
+      const log: LogFn = (level, message, data) => {
+        if (level === 'error') {
+          lastError = message;
+        }
+        addLog(level, `[${currentIndex}/${total}] ${message}`, data, recordId);
+      };
+
+      if (!recordId) {
+        log('warn', t('logNoRecordIdSkip'));
+        return { status: 'skipped', reason: t('reasonNoRecordId') };
+      }
+
+      try {
+        const attachments = await table.getCellValue(attachmentFieldId, recordId) as IOpenAttachment[] | null;
+        if (!attachments || attachments.length === 0) {
+          log('info', t('logNoAttachmentsSkip'));
+          return { status: 'skipped', reason: t('reasonNoAttachments') };
+        }
+
+        const currentText = await table.getCellString(urlFieldId, recordId);
+        if (currentText.trim() && !overwrite) {
+          log('info', t('logTargetHasContentSkip'));
+          return { status: 'skipped', reason: t('reasonTargetHasContent') };
+        }
+
+        if (control.cancelled) {
+          return { status: 'cancelled' };
+        }
+
+        const tokens = (urlExportMode === 'all' ? attachments : attachments.slice(0, 1)).map(attachment => attachment.token);
+        await waitForRateLimit();
+        const urls = await table.getCellAttachmentUrls(tokens, attachmentFieldId, recordId);
+        if (!urls || urls.length === 0) {
+          log('error', t('logNoAttachmentUrls'));
+          return { status: 'failed', reason: lastError };
+        }
+        log('info', t('logAttachmentUrls', { count: urls.length }));
+
+        await waitForRateLimit();
+        await table.setCellValue(urlFieldId, recordId, buildUrlCellValue(urls, spec.targetFieldType ?? FieldType.Text));
+        log('success', t('logUrlsWritten'));
+        return { status: 'success' };
+      } catch (error: any) {
+        log('error', t('logExportUrlsFailed', { detail: error?.message || String(error) }), error);
+        return { status: 'failed', reason: lastError };
+      }
+    };
+
+    // 反向模式处理单条记录，完成后计入第一组字段映射的统计
+    const exportRecordUrls = async (recordId: string | undefined, index: number): Promise<ProcessResult> => {
+      const result = await exportUrls(recordId, index);
+      if (recordId && result.status !== 'cancelled') {
+        mappingCounts[0][result.status]++;
+      }
+      return result;
+    };
+
+    // 预览结果，所有worker共享
+    const previewRows: PreviewRow[] = [];
+
+    // 预览一组字段映射：提取URL并探测文件，判断计划执行的操作
+    const previewMapping = async (
+      recordId: string,
+      currentIndex: number,
+      mapping: FieldMapping,
+      mappingIndex: number
+    ): Promise<PreviewRow> => {
+      const { urlFieldId, attachmentFieldId, overwrite } = mapping;
+      const row: PreviewRow = { index: currentIndex, recordId, mappingIndex, action: 'skip', urls: [], estimatedSize: 0, sizeUnknown: false };
+
+      const urlValue = await table.getCellValue(urlFieldId, recordId);
+      const urls = extractUrlsFromCellValue(urlValue);
+      if (urls.length === 0) {
+        const cellText = getCellTextSegments(urlValue).join('').trim();
+        return cellText
+          ? { ...row, action: 'fail', reason: t('reasonNoValidUrl', { text: cellText }) }
+          : { ...row, reason: t('noUrl') };
+      }
+
+      const currentAttachments = await table.getCellValue(attachmentFieldId, recordId);
+      const hasExistingAttachments = Array.isArray(currentAttachments) && currentAttachments.length > 0;
+      if (!overwrite && !append && hasExistingAttachments) {
+        return { ...row, urls: urls.map(url => ({ url })), reason: t('reasonHasAttachments') };
+      }
+
+      for (const url of urls) {
+        if (!isValidUrl(url)) {
+          row.urls.push({ url, problem: t('invalidUrl') });
+          continue;
+        }
+        try {
+          const probe = await withRetry(() => fetcher.probe(url, downloadOptions), { policy: retryPolicy, signal: control.signal });
+          const previewUrl: PreviewUrl = { url, ...probe };
+          row.urls.push(previewUrl);
+          if (probe.size === null) {
+            row.sizeUnknown = true;
+          } else {
+            row.estimatedSize += probe.size;
+          }
+        } catch (error: any) {
+          if (control.cancelled) {
+            throw error;
+          }
+          row.urls.push({ url, problem: getErrorMessage(error, t), rejected: error instanceof FilePolicyError });
+        }
+      }
+      return { ...row, ...planAction(row.urls, hasExistingAttachments, overwrite) };
+    };
+
+    // 预览单条记录的所有字段映射
+    const previewRecord = async (recordId: string | undefined, index: number): Promise<ProcessResult> => {
+      const currentIndex = index + 1;
+      if (!recordId) {
+        return { status: 'skipped', reason: t('reasonNoRecordId') };
+      }
+      const rows: PreviewRow[] = [];
+      try {
+        for (let mappingIndex = 0; mappingIndex < mappings.length; mappingIndex++) {
+          rows.push(await previewMapping(recordId, currentIndex, mappings[mappingIndex], mappingIndex));
+        }
+      } catch (error: any) {
+        if (control.cancelled) {
+          return { status: 'cancelled' };
+        }
+        addLog('error', `[${currentIndex}/${total}] ${t('logPreviewRecordError', { detail: error?.message || String(error) })}`, error, recordId);
+        return { status: 'failed', reason: error?.message || String(error) };
+      }
+
+      const results: MappingResult[] = rows.map(row => {
+        const status: RecordStatus = row.action === 'fail' ? 'failed' : row.action === 'skip' ? 'skipped' : 'success';
+        mappingCounts[row.mappingIndex][status]++;
+        const mappingPrefix = mappings.length > 1 ? t('logMappingPrefix', { index: row.mappingIndex + 1, total: mappings.length }) : '';
+        const action = t(PLANNED_ACTION_LABEL_KEYS[row.action]);
+        const message = row.reason ? t('logPreviewActionReason', { action, reason: row.reason }) : t('logPreviewAction', { action });
+        addLog(status === 'failed' ? 'warn' : 'info', `[${currentIndex}/${total}] ${mappingPrefix}${message}`, undefined, recordId);
+        return { status, reason: row.reason };
+      });
+      previewRows.push(...rows);
+      return combineMappingResults(results);
+    };
+
+    // 使用worker池并发处理记录，暂停时worker在开始下一条记录前等待，取消后不再取出新记录
+    await runWithConcurrency(recordIds, workerCount, async (recordId, index) => {
+      await control.waitIfPaused();
+      if (control.cancelled) {
+        return;
+      }
+      const { status, reason } = dryRun
+        ? await previewRecord(recordId, index)
+        : reverse
+          ? await exportRecordUrls(recordId, index)
+          : await processRecord(recordId, index);
+      counts[status]++;
+      if (status === 'cancelled') {
+        return;
+      }
+      if (status === 'success' && recordId && retriedRecordIds.has(recordId)) {
+        counts.retriedSuccess++;
+      }
+      counts.completed++;
+
+      // 将处理结果写回状态字段和错误原因字段，写入失败不影响处理结果
+      const recordValue = recordId ? statusWriter?.buildRecordValue(status, reason) : null;
+      if (recordId && recordValue) {
+        try {
+          await waitForRateLimit();
+          await table.setRecord(recordId, recordValue);
+        } catch (error: any) {
+          addLog('warn', `[${index + 1}/${total}] ${t('logStatusWriteFailed', { detail: error?.message || String(error) })}`, undefined, recordId);
+        }
+      }
+
+      emit({ type: 'record', recordId, index, status, reason, urls: recordId ? extractedUrls.get(recordId) : undefined });
+      emit({ type: 'progress', progress: getProgress() });
+    }, control.signal);
+
+    return {
+      ...getProgress(),
+      retriedSuccess: counts.retriedSuccess,
+      cancelled: control.cancelled,
+      previewRows: sortPreviewRows(previewRows),
+    };
+  };
+
+  return { run };
+}
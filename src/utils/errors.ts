@@ -0,0 +1,231 @@
+/**
+ * 错误类型
+ * 下载、上传和写入附件过程中的错误都带有机器可读的错误码、HTTP状态码和URL，
+ * 调用方按错误类型决定是否回退、重试或跳过；展示给用户的文案来自 i18n 键
+ */
+
+import { t } from 'i18next';
+
+export type ConversionErrorCode =
+  | 'PROXY_ERROR'
+  | 'URL_BLOCKED'
+  | 'UPSTREAM_HTTP'
+  | 'CORS'
+  | 'NETWORK'
+  | 'FILE_TOO_LARGE'
+  | 'FILE_TYPE_NOT_ALLOWED'
+  | 'EMPTY_FILE'
+  | 'NOT_A_FILE'
+  | 'DOWNLOAD_FAILED'
+  | 'IMAGE_PROCESSING_FAILED'
+  | 'UPLOAD_FAILED'
+  | 'WRITE_FAILED'
+  | 'VERIFY_FAILED';
+
+export type ErrorMessageParams = Record<string, string | number>;
+
+export interface ConversionErrorOptions {
+  /** HTTP状态码（代理或目标服务器返回） */
+  status?: number;
+  /** 出错的文件URL */
+  url?: string;
+  /** 展示给用户的文案对应的 i18n 键，默认按错误码取 */
+  messageKey?: string;
+  /** 文案的插值参数 */
+  params?: ErrorMessageParams;
+}
+
+// 错误码对应的默认文案键
+const ERROR_MESSAGE_KEYS: Record<ConversionErrorCode, string> = {
+  PROXY_ERROR: 'errorProxy',
+  URL_BLOCKED: 'errorUrlBlocked',
+  UPSTREAM_HTTP: 'errorUpstreamHttp',
+  CORS: 'errorCors',
+  NETWORK: 'errorNetwork',
+  FILE_TOO_LARGE: 'errorTooLarge',
+  FILE_TYPE_NOT_ALLOWED: 'errorFileTypeNotAllowed',
+  EMPTY_FILE: 'errorEmptyFile',
+  NOT_A_FILE: 'errorNotAFile',
+  DOWNLOAD_FAILED: 'errorDownload',
+  IMAGE_PROCESSING_FAILED: 'errorImageProcessing',
+  UPLOAD_FAILED: 'errorUpload',
+  WRITE_FAILED: 'errorWrite',
+  VERIFY_FAILED: 'errorVerify',
+};
+
+/**
+ * 所有转换错误的基类
+ * message 为创建错误时按当前语言翻译的文案；切换语言后可以通过 getErrorMessage 按 messageKey 和 params 重新翻译
+ */
+export class ConversionError extends Error {
+  code: ConversionErrorCode;
+  status?: number;
+  url?: string;
+  messageKey: string;
+  params: ErrorMessageParams;
+
+  constructor(code: ConversionErrorCode, options: ConversionErrorOptions = {}, details?: string) {
+    const messageKey = options.messageKey ?? ERROR_MESSAGE_KEYS[code];
+    // details 为服务器返回的原始内容等不需要翻译的补充信息，只出现在日志中
+    super(`${t(messageKey, options.params ?? {})}${details ? ` (${details})` : ''}`);
+    this.name = 'ConversionError';
+    this.code = code;
+    this.status = options.status;
+    this.url = options.url;
+    this.messageKey = messageKey;
+    this.params = options.params ?? {};
+  }
+}
+
+/**
+ * 代理本身返回的错误（签名无效、代理内部错误等），或代理按目标地址策略拒绝了请求
+ * 被策略拒绝（blocked）时不应再尝试直接下载
+ */
+export class ProxyError extends ConversionError {
+  /** 代理返回的错误码，例如 PRIVATE_ADDRESS */
+  proxyCode?: string;
+  blocked: boolean;
+
+  constructor(
+    detail: string,
+    options: { status?: number; url?: string; proxyCode?: string; blocked?: boolean } = {}
+  ) {
+    const { proxyCode, blocked = false } = options;
+    super(blocked ? 'URL_BLOCKED' : 'PROXY_ERROR', {
+      status: options.status,
+      url: options.url,
+      params: { status: options.status ?? '-', code: proxyCode ?? '-', detail },
+    });
+    this.name = 'ProxyError';
+    this.proxyCode = proxyCode;
+    this.blocked = blocked;
+  }
+}
+
+/**
+ * 目标服务器（或代理透传的上游）返回非2xx状态码时抛出的错误
+ * status 和 retryAfter 用于判断是否重试以及重试前等待多久
+ */
+export class UpstreamHttpError extends ConversionError {
+  statusText: string;
+  /** Retry-After 头要求等待的毫秒数 */
+  retryAfter: number | null;
+
+  constructor(status: number, statusText: string, retryAfter: number | null = null, details?: string, url?: string) {
+    super('UPSTREAM_HTTP', { status, url, params: { status, statusText: statusText || 'Unknown' } }, details);
+    this.name = 'UpstreamHttpError';
+    this.statusText = statusText;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * 代理没有可用的结果，直接下载又被浏览器的跨域限制拦截时抛出的错误
+ */
+export class CorsError extends ConversionError {
+  constructor(detail: string, url?: string) {
+    super('CORS', { url, params: { detail } });
+    this.name = 'CorsError';
+  }
+}
+
+/**
+ * 代理和直接下载都没有收到任何响应时抛出的错误（网络中断、超时等），可以重试
+ */
+export class NetworkError extends ConversionError {
+  constructor(detail: string, url?: string) {
+    super('NETWORK', { url, params: { detail } });
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * 下载到的文件为空
+ */
+export class EmptyFileError extends ConversionError {
+  constructor(url?: string) {
+    super('EMPTY_FILE', { url });
+    this.name = 'EmptyFileError';
+  }
+}
+
+/**
+ * 下载结果是HTML/XML页面（登录页、错误页等）而不是文件时抛出的错误
+ * 提供 extension 时表示URL或文件名表明应该是该类型的文件；否则表示页面符合常见错误页的特征
+ */
+export class NotAFileError extends ConversionError {
+  extension?: string;
+  title?: string;
+
+  constructor(details: { extension?: string; title?: string } = {}, url?: string) {
+    const { extension, title } = details;
+    const messageKey = extension ? 'errorNotAFileExpected' : 'errorNotAFile';
+    const titledMessageKey = extension ? 'errorNotAFileExpectedTitled' : 'errorNotAFileTitled';
+    super('NOT_A_FILE', {
+      url,
+      messageKey: title ? titledMessageKey : messageKey,
+      params: { extension: extension ?? '', title: title ?? '' },
+    });
+    this.name = 'NotAFileError';
+    this.extension = extension;
+    this.title = title;
+  }
+}
+
+/**
+ * 下载过程中其他未分类的错误
+ */
+export class DownloadError extends ConversionError {
+  constructor(detail: string, url?: string) {
+    super('DOWNLOAD_FAILED', { url, params: { detail } });
+    this.name = 'DownloadError';
+  }
+}
+
+/**
+ * 开启去掉EXIF时图片处理失败，原始文件带有元数据，不能上传
+ */
+export class ImageProcessingError extends ConversionError {
+  constructor(detail: string, url?: string) {
+    super('IMAGE_PROCESSING_FAILED', { url, params: { detail } });
+    this.name = 'ImageProcessingError';
+  }
+}
+
+/**
+ * 上传文件到飞书（UPLOAD_FAILED）或写入附件字段（WRITE_FAILED）失败
+ */
+export class UploadError extends ConversionError {
+  constructor(detail: string, stage: 'upload' | 'write' = 'upload', status?: number) {
+    super(stage === 'upload' ? 'UPLOAD_FAILED' : 'WRITE_FAILED', { status, params: { detail } });
+    this.name = 'UploadError';
+  }
+}
+
+/**
+ * 写入附件字段后重新读取，新附件不在字段中
+ * expected 为空表示字段为空
+ */
+export class VerifyError extends ConversionError {
+  constructor(expected?: number, actual?: number) {
+    super('VERIFY_FAILED', {
+      messageKey: expected !== undefined ? 'errorVerifyCount' : 'errorVerify',
+      params: { expected: expected ?? '', actual: actual ?? 0 },
+    });
+    this.name = 'VerifyError';
+  }
+}
+
+/**
+ * 获取展示给用户的错误文案
+ * 转换错误按 i18n 键重新翻译（不含只用于日志的补充信息），其他错误使用原始错误信息
+ * @param error 错误
+ * @param translate 翻译函数
+ * @returns string
+ */
+export function getErrorMessage(error: any, translate: (key: string, params?: ErrorMessageParams) => string): string {
+  if (error instanceof ConversionError) {
+    return translate(error.messageKey, error.params);
+  }
+  return error?.message || String(error);
+}
@@ -0,0 +1,82 @@
+/**
+ * 字段映射工具函数
+ * 一次任务可以包含多组「URL字段 → 附件字段」映射，每条记录依次处理所有映射
+ */
+
+import { t } from 'i18next';
+import { RecordStatus } from './jobStore';
+
+export interface FieldMapping {
+  urlFieldId: string;
+  attachmentFieldId: string;
+  /** 是否覆盖该附件字段中已有的附件 */
+  overwrite: boolean;
+}
+
+export interface MappingResult {
+  status: RecordStatus;
+  /** 失败或跳过的原因 */
+  reason?: string;
+}
+
+/**
+ * 合并表单中的主映射和额外映射
+ * 完全空白的额外映射会被忽略，只选择了其中一个字段的映射视为不完整
+ * @param primary 表单中的主映射
+ * @param extraMappings 额外的映射
+ * @returns { mappings, incompleteRows } incompleteRows为不完整映射的序号（主映射为1）
+ */
+export function collectFieldMappings(
+  primary: FieldMapping,
+  extraMappings: Partial<FieldMapping>[] = []
+): { mappings: FieldMapping[]; incompleteRows: number[] } {
+  const mappings: FieldMapping[] = [primary];
+  const incompleteRows: number[] = [];
+  extraMappings.forEach((mapping, index) => {
+    const { urlFieldId, attachmentFieldId } = mapping || {};
+    if (urlFieldId && attachmentFieldId) {
+      mappings.push({ urlFieldId, attachmentFieldId, overwrite: !!mapping.overwrite });
+    } else if (urlFieldId || attachmentFieldId) {
+      incompleteRows.push(index + 2);
+    }
+  });
+  return { mappings, incompleteRows };
+}
+
+/**
+ * 查找被多组映射重复使用的附件字段
+ * 同一附件字段被多次写入时，后写入的映射会覆盖或重复追加前一组的结果
+ * @param mappings 字段映射列表
+ * @returns string[] 重复的附件字段ID
+ */
+export function findDuplicateAttachmentFields(mappings: FieldMapping[]): string[] {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const { attachmentFieldId } of mappings) {
+    if (seen.has(attachmentFieldId)) {
+      duplicates.add(attachmentFieldId);
+    }
+    seen.add(attachmentFieldId);
+  }
+  return Array.from(duplicates);
+}
+
+/**
+ * 合并一条记录中各组映射的处理结果
+ * 任一映射失败时记录失败；否则任一映射成功时记录成功；全部跳过时记录跳过
+ * @param results 与映射顺序一致的处理结果
+ * @returns MappingResult 记录的处理结果，多组映射时原因前加上映射序号
+ */
+export function combineMappingResults(results: MappingResult[]): MappingResult {
+  if (results.length === 1) {
+    return results[0];
+  }
+  const statuses = results.map(({ status }) => status);
+  const status: RecordStatus = statuses.includes('failed')
+    ? 'failed'
+    : statuses.includes('success') ? 'success' : 'skipped';
+  const reasons = results
+    .map(({ reason }, index) => (reason ? t('reasonMappingPrefix', { index: index + 1, reason }) : ''))
+    .filter(Boolean);
+  return { status, reason: reasons.length > 0 ? reasons.join('; ') : undefined };
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  dedupeFileNames,
+  FileNameTemplateContext,
+  getTemplateFieldNames,
+  renderFileNameTemplate,
+  sanitizeFileName,
+  splitFileName,
+} from './fileNameTemplate';
+
+/**
+ * 创建模板变量
+ * @param overrides 需要修改的变量
+ */
+function createContext(overrides: Partial<FileNameTemplateContext> = {}): FileNameTemplateContext {
+  return {
+    fields: { SKU: 'A-100', Color: 'Red' },
+    index: 3,
+    fileIndex: 2,
+    date: new Date(2024, 0, 5),
+    originalFileName: 'photo.JPG',
+    ...overrides,
+  };
+}
+
+describe('sanitizeFileName', () => {
+  it.each([
+    ['a/b\\c:d*e?f"g<h>i|j.png', 'abcdefghij.png'],
+    ['tab\tand\nnew line\u0000.txt', 'tab and new line.txt'],
+    ['  ..hidden name..  ', 'hidden name'],
+    ['a\u007fb.pdf', 'ab.pdf'],
+    ['///', ''],
+  ])('cleans %j', (input, expected) => {
+    expect(sanitizeFileName(input)).toBe(expected);
+  });
+
+  it('truncates long names but keeps the extension', () => {
+    const fileName = sanitizeFileName(`${'x'.repeat(300)}.jpeg`);
+
+    expect(fileName).toBe(`${'x'.repeat(200)}.jpeg`);
+  });
+});
+
+describe('splitFileName', () => {
+  it('only treats short alphanumeric suffixes as extensions', () => {
+    expect(splitFileName('archive.tar.gz')).toEqual({ baseName: 'archive.tar', extension: 'gz' });
+    expect(splitFileName('report.final version')).toEqual({ baseName: 'report.final version', extension: '' });
+  });
+});
+
+describe('renderFileNameTemplate', () => {
+  it('fills fields and built-in variables and appends the extension', () => {
+    expect(renderFileNameTemplate('{{SKU}}_{{ Color }}_{{index}}-{{fileIndex}}_{{date}}', createContext()))
+      .toBe('A-100_Red_3-2_2024-01-05.JPG');
+  });
+
+  it('does not append the extension again when the template uses {{ext}}', () => {
+    expect(renderFileNameTemplate('{{name}}.{{ext}}', createContext())).toBe('photo.JPG');
+  });
+
+  it('removes illegal characters coming from field values', () => {
+    const context = createContext({ fields: { SKU: 'A/100', Color: 'Red|Blue' } });
+
+    expect(renderFileNameTemplate('{{SKU}}_{{Color}}', context)).toBe('A100_RedBlue.JPG');
+  });
+
+  it('falls back to the original file name when the result is empty', () => {
+    expect(renderFileNameTemplate('{{Missing}}', createContext())).toBe('photo.JPG');
+  });
+
+  it('lists referenced fields without built-in variables', () => {
+    expect(getTemplateFieldNames('{{SKU}}_{{index}}_{{ SKU }}_{{Color}}.{{ext}}')).toEqual(['SKU', 'Color']);
+  });
+});
+
+describe('dedupeFileNames', () => {
+  it('numbers duplicate names regardless of case', () => {
+    expect(dedupeFileNames(['a.jpg', 'A.JPG', 'a.jpg', 'b'])).toEqual(['a.jpg', 'A (1).JPG', 'a (2).jpg', 'b']);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * 文件名模板工具函数
+ * 用于根据记录的字段值生成附件文件名，例如 {{SKU}}_{{Color}}_{{index}}.{{ext}}
+ */
+
+// 模板占位符：{{变量名}}，变量名两侧可以有空格
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+// 文件名中不允许出现的字符（Windows/macOS/Linux的并集）以及控制字符
+// eslint-disable-next-line no-control-regex
+const ILLEGAL_CHARACTERS = /[\\/:*?"<>|\u0000-\u001f\u007f]/g;
+
+// 文件名最大长度（不含扩展名）
+const MAX_BASE_NAME_LENGTH = 200;
+
+/**
+ * 内置变量，优先于同名字段
+ * - index: 记录在本次任务中的序号（从1开始）
+ * - fileIndex: 文件在该记录中的序号（从1开始）
+ * - date: 处理日期（YYYY-MM-DD）
+ * - ext: 识别到的扩展名（不含点）
+ * - name: 原始文件名（不含扩展名）
+ */
+export const BUILTIN_TEMPLATE_VARIABLES = ['index', 'fileIndex', 'date', 'ext', 'name'] as const;
+
+export type BuiltinTemplateVariable = typeof BUILTIN_TEMPLATE_VARIABLES[number];
+
+export interface FileNameTemplateContext {
+  /** 字段名到单元格文本的映射 */
+  fields: Record<string, string>;
+  index: number;
+  fileIndex: number;
+  date: Date;
+  /** 原始文件名（含扩展名），用于提供 name 和 ext 变量 */
+  originalFileName: string;
+}
+
+/**
+ * 判断变量名是否为内置变量
+ * @param name 变量名
+ * @returns boolean
+ */
+export function isBuiltinTemplateVariable(name: string): name is BuiltinTemplateVariable {
+  return (BUILTIN_TEMPLATE_VARIABLES as readonly string[]).includes(name);
+}
+
+/**
+ * 获取模板中引用的字段名（不含内置变量），按出现顺序去重
+ * @param template 文件名模板
+ * @returns string[] 字段名列表
+ */
+export function getTemplateFieldNames(template: string): string[] {
+  const names = Array.from(template.matchAll(PLACEHOLDER_PATTERN), match => match[1]);
+  return Array.from(new Set(names.filter(name => !isBuiltinTemplateVariable(name))));
+}
+
+/**
+ * 拆分文件名和扩展名
+ * @param fileName 文件名
+ * @returns { baseName, extension } 扩展名不含点，没有扩展名时为空字符串
+ */
+export function splitFileName(fileName: string): { baseName: string; extension: string } {
+  const match = fileName.match(/^(.*)\.([a-z0-9]{1,8})$/i);
+  return match ? { baseName: match[1], extension: match[2] } : { baseName: fileName, extension: '' };
+}
+
+/**
+ * 移除文件名中的非法字符，并去掉首尾的空格和点
+ * @param fileName 文件名
+ * @returns string 清理后的文件名（可能为空字符串）
+ */
+export function sanitizeFileName(fileName: string): string {
+  const cleaned = fileName
+    // 换行、制表符属于控制字符，先换成空格，避免多行文本中的词连在一起
+    .replace(/\s/g, ' ')
+    .replace(ILLEGAL_CHARACTERS, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+|\.+$/g, '');
+  const { baseName, extension } = splitFileName(cleaned);
+  const truncated = baseName.slice(0, MAX_BASE_NAME_LENGTH);
+  return extension ? `${truncated}.${extension}` : truncated;
+}
+
+/**
+ * 格式化日期为 YYYY-MM-DD
+ * @param date 日期
+ * @returns string
+ */
+function formatDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * 根据模板生成文件名
+ * 模板未使用 {{ext}} 时自动追加识别到的扩展名；生成结果为空时使用原始文件名
+ * @param template 文件名模板
+ * @param context 模板变量
+ * @returns string 清理后的文件名
+ */
+export function renderFileNameTemplate(template: string, context: FileNameTemplateContext): string {
+  const { baseName, extension } = splitFileName(context.originalFileName);
+  const builtins: Record<BuiltinTemplateVariable, string> = {
+    index: String(context.index),
+    fileIndex: String(context.fileIndex),
+    date: formatDate(context.date),
+    ext: extension,
+    name: baseName,
+  };
+
+  let usesExtension = false;
+  const rendered = template.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+    if (isBuiltinTemplateVariable(name)) {
+      usesExtension = usesExtension || name === 'ext';
+      return builtins[name];
+    }
+    return context.fields[name] ?? '';
+  });
+
+  let fileName = sanitizeFileName(rendered);
+  if (!fileName) {
+    return context.originalFileName;
+  }
+  if (!usesExtension && extension && !fileName.toLowerCase().endsWith(`.${extension.toLowerCase()}`)) {
+    fileName = `${fileName}.${extension}`;
+  }
+  return fileName;
+}
+
+/**
+ * 为重复的文件名添加序号后缀，例如 a.jpg、a (1).jpg、a (2).jpg
+ * 比较时忽略大小写，保持原有顺序
+ * @param fileNames 文件名列表
+ * @returns string[] 去重后的文件名列表
+ */
+export function dedupeFileNames(fileNames: string[]): string[] {
+  const used = new Set<string>();
+  return fileNames.map(fileName => {
+    const { baseName, extension } = splitFileName(fileName);
+    let candidate = fileName;
+    for (let suffix = 1; used.has(candidate.toLowerCase()); suffix++) {
+      candidate = extension ? `${baseName} (${suffix}).${extension}` : `${baseName} (${suffix})`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assertFileSizeAllowed,
+  assertFileTypeAllowed,
+  buildFilePolicy,
+  encodeFilePolicy,
+  FilePolicyError,
+  getFileCategory,
+  isTypeExpectedByPolicy,
+  parsePolicyList,
+  TooLargeError,
+} from './filePolicy';
+
+const MB = 1024 * 1024;
+
+describe('buildFilePolicy', () => {
+  it('converts sizes to bytes and ignores empty or invalid sizes', () => {
+    const policy = buildFilePolicy({ maxFileSizeMb: { default: 10, image: 2, video: 0 } });
+
+    expect(policy.defaultMaxSize).toBe(10 * MB);
+    expect(policy.maxSize).toEqual({ image: 2 * MB });
+  });
+
+  it('parses lists separated by commas, spaces and full-width commas', () => {
+    expect(parsePolicyList('.PDF, docx，xlsx  pdf')).toEqual(['pdf', 'docx', 'xlsx']);
+  });
+
+  it('encodes the policy as base64 JSON for the proxy header', () => {
+    const policy = buildFilePolicy({ allowedMimeTypes: 'image/*' });
+
+    expect(JSON.parse(Buffer.from(encodeFilePolicy(policy), 'base64').toString('utf8'))).toEqual(policy);
+  });
+});
+
+describe('getFileCategory', () => {
+  it.each([
+    ['image/png', 'a', 'image'],
+    ['text/csv', 'a', 'document'],
+    ['application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'a', 'document'],
+    ['application/zip', 'a', 'archive'],
+    ['application/octet-stream', 'clip.mp4', 'video'],
+    [null, 'unknown.bin', 'other'],
+  ])('classifies %s (%s) as %s', (mimeType, fileName, category) => {
+    expect(getFileCategory(mimeType, fileName)).toBe(category);
+  });
+});
+
+describe('assertFileSizeAllowed', () => {
+  const policy = buildFilePolicy({ maxFileSizeMb: { default: 10, image: 1 } });
+
+  it('uses the limit of the file category', () => {
+    expect(() => assertFileSizeAllowed(policy, 2 * MB, 'image/png', 'a.png')).toThrow(TooLargeError);
+    expect(() => assertFileSizeAllowed(policy, 2 * MB, 'application/pdf', 'a.pdf')).not.toThrow();
+  });
+
+  it('falls back to the default limit', () => {
+    expect(() => assertFileSizeAllowed(policy, 11 * MB, null, 'a.bin')).toThrow(TooLargeError);
+  });
+});
+
+describe('assertFileTypeAllowed', () => {
+  it('applies MIME allow and deny lists, with the deny list taking priority', () => {
+    const policy = buildFilePolicy({ allowedMimeTypes: 'image/*', deniedMimeTypes: 'image/gif' });
+
+    expect(() => assertFileTypeAllowed(policy, 'image/png; charset=binary', 'a.png')).not.toThrow();
+    expect(() => assertFileTypeAllowed(policy, 'image/gif', 'a.gif')).toThrow(FilePolicyError);
+    expect(() => assertFileTypeAllowed(policy, 'application/pdf', 'a.pdf')).toThrow(FilePolicyError);
+  });
+
+  it('applies extension allow and deny lists', () => {
+    const policy = buildFilePolicy({ allowedExtensions: 'pdf, exe', deniedExtensions: 'exe' });
+
+    expect(() => assertFileTypeAllowed(policy, null, 'report.PDF')).not.toThrow();
+    expect(() => assertFileTypeAllowed(policy, null, 'setup.exe')).toThrow(FilePolicyError);
+    expect(() => assertFileTypeAllowed(policy, null, 'archive.zip')).toThrow(FilePolicyError);
+  });
+});
+
+describe('isTypeExpectedByPolicy', () => {
+  it('is true only when an allow list names the type', () => {
+    expect(isTypeExpectedByPolicy(buildFilePolicy({}), 'text/html', ['html'])).toBe(false);
+    expect(isTypeExpectedByPolicy(buildFilePolicy({ allowedMimeTypes: 'text/*' }), 'text/html')).toBe(true);
+    expect(isTypeExpectedByPolicy(buildFilePolicy({ allowedExtensions: 'html' }), 'text/html', ['html'])).toBe(true);
+  });
+});
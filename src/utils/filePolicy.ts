@@ -0,0 +1,284 @@
+/**
+ * 文件过滤策略工具函数
+ * 按MIME类别限制文件大小，并按MIME类型和扩展名的白名单/黑名单过滤文件；
+ * 同一个策略对象会随请求发送给代理，由代理和客户端共同执行
+ */
+
+import { t } from 'i18next';
+import { ConversionError, ErrorMessageParams } from './errors';
+
+export type FileCategory = 'image' | 'video' | 'audio' | 'document' | 'archive' | 'other';
+
+export const FILE_CATEGORIES: FileCategory[] = ['image', 'video', 'audio', 'document', 'archive', 'other'];
+
+// 默认的单个文件大小上限（MB）
+export const DEFAULT_MAX_FILE_SIZE_MB = 20;
+
+// 传递策略给代理的请求头，与 api/_lib/filePolicy.js 保持一致
+export const FILE_POLICY_PROXY_HEADER = 'X-Url2file-File-Policy';
+
+export interface FilePolicy {
+  /** 未单独配置的类别使用的大小上限（字节） */
+  defaultMaxSize: number;
+  /** 各类别的大小上限（字节） */
+  maxSize: Partial<Record<FileCategory, number>>;
+  /** MIME类型白名单，支持 image/* 形式，为空时不限制 */
+  allowedMimeTypes: string[];
+  /** MIME类型黑名单，优先于白名单 */
+  deniedMimeTypes: string[];
+  /** 扩展名白名单（不含点，小写），为空时不限制 */
+  allowedExtensions: string[];
+  /** 扩展名黑名单，优先于白名单 */
+  deniedExtensions: string[];
+}
+
+/**
+ * 表单中的过滤设置：大小以MB为单位，列表为逗号分隔的文本
+ */
+export interface FilePolicySettings {
+  maxFileSizeMb?: Partial<Record<FileCategory | 'default', number>>;
+  allowedMimeTypes?: string;
+  deniedMimeTypes?: string;
+  allowedExtensions?: string;
+  deniedExtensions?: string;
+}
+
+export type FilePolicyErrorCode = 'FILE_TOO_LARGE' | 'FILE_TYPE_NOT_ALLOWED';
+
+/**
+ * 文件被过滤策略拒绝时抛出的错误，调用方应将记录标记为跳过而不是失败
+ */
+export class FilePolicyError extends ConversionError {
+  constructor(code: FilePolicyErrorCode, messageKey?: string, params?: ErrorMessageParams) {
+    super(code, { messageKey, params });
+    this.name = 'FilePolicyError';
+  }
+}
+
+/**
+ * 文件超过大小上限，size 为空表示代理在读取过程中超限、实际大小未知
+ */
+export class TooLargeError extends FilePolicyError {
+  size: number | null;
+  limit: number;
+
+  constructor(size: number | null, limit: number, category?: FileCategory) {
+    const sizeMessageKey = category ? 'errorTooLargeCategory' : 'errorTooLarge';
+    const messageKey = size !== null ? sizeMessageKey : 'errorTooLargeUnknownSize';
+    super('FILE_TOO_LARGE', messageKey, {
+      size: size !== null ? formatFileSize(size) : '',
+      limit: formatFileSize(limit),
+      category: category ?? '',
+    });
+    this.name = 'TooLargeError';
+    this.size = size;
+    this.limit = limit;
+  }
+}
+
+const DOCUMENT_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.ms-excel',
+  'application/vnd.ms-powerpoint',
+  'application/rtf',
+  'application/json',
+  'application/xml',
+];
+
+const ARCHIVE_TYPES = [
+  'application/zip',
+  'application/x-zip-compressed',
+  'application/gzip',
+  'application/x-gzip',
+  'application/x-tar',
+  'application/x-7z-compressed',
+  'application/vnd.rar',
+  'application/x-rar-compressed',
+];
+
+// 类别判断时使用的扩展名，用于MIME类型未知的情况
+const CATEGORY_EXTENSIONS: Record<Exclude<FileCategory, 'other'>, string[]> = {
+  image: ['jpg', 'jpeg', 'png', 'gif', 'webp', 'bmp', 'svg', 'tif', 'tiff', 'ico', 'heic', 'avif'],
+  video: ['mp4', 'mov', 'avi', 'mkv', 'webm', 'flv', 'wmv', 'm4v'],
+  audio: ['mp3', 'wav', 'aac', 'flac', 'ogg', 'm4a', 'wma'],
+  document: ['pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'txt', 'csv', 'rtf', 'md', 'json', 'xml'],
+  archive: ['zip', 'gz', 'tgz', 'tar', '7z', 'rar'],
+};
+
+/**
+ * 规范化MIME类型（去掉参数并转为小写）
+ * @param mimeType MIME类型
+ * @returns string 未知时为空字符串
+ */
+function normalizeMimeType(mimeType: string | null | undefined): string {
+  const type = (mimeType || '').split(';')[0].trim().toLowerCase();
+  return type === 'application/octet-stream' ? '' : type;
+}
+
+/**
+ * 获取文件名的扩展名（不含点，小写）
+ * @param fileName 文件名
+ * @returns string 没有扩展名时为空字符串
+ */
+function getExtension(fileName: string): string {
+  const match = fileName.match(/\.([a-z0-9]{1,8})$/i);
+  return match ? match[1].toLowerCase() : '';
+}
+
+/**
+ * 根据MIME类型和扩展名判断文件类别
+ * @param mimeType MIME类型
+ * @param fileName 文件名（MIME类型未知时使用扩展名判断）
+ * @returns FileCategory
+ */
+export function getFileCategory(mimeType: string | null | undefined, fileName = ''): FileCategory {
+  const type = normalizeMimeType(mimeType);
+  if (type) {
+    const [major] = type.split('/');
+    if (major === 'image' || major === 'video' || major === 'audio') return major;
+    if (major === 'text' || DOCUMENT_TYPES.includes(type) || type.startsWith('application/vnd.openxmlformats-officedocument.')) {
+      return 'document';
+    }
+    if (ARCHIVE_TYPES.includes(type)) return 'archive';
+  }
+  const extension = getExtension(fileName);
+  const category = (Object.keys(CATEGORY_EXTENSIONS) as Exclude<FileCategory, 'other'>[])
+    .find(name => CATEGORY_EXTENSIONS[name].includes(extension));
+  return category || 'other';
+}
+
+/**
+ * 获取某个类别的大小上限
+ * @param policy 过滤策略
+ * @param category 文件类别
+ * @returns number 字节数
+ */
+export function getMaxFileSize(policy: FilePolicy, category: FileCategory): number {
+  return policy.maxSize[category] || policy.defaultMaxSize;
+}
+
+/**
+ * 判断MIME类型是否匹配列表中的某一项（支持 image/* 形式）
+ * @param mimeType 规范化后的MIME类型
+ * @param patterns MIME类型列表
+ * @returns boolean
+ */
+function matchesMimeType(mimeType: string, patterns: string[]): boolean {
+  return patterns.some(pattern => (pattern.endsWith('/*')
+    ? mimeType.startsWith(pattern.slice(0, -1))
+    : mimeType === pattern));
+}
+
+/**
+ * 判断过滤策略的白名单是否明确允许该类型（MIME类型或扩展名），用于判断任务是否期望下载这类文件
+ * 白名单为空时不表示期望任何类型
+ * @param policy 过滤策略
+ * @param mimeType MIME类型
+ * @param extensions 该类型的扩展名（不含点，小写）
+ * @returns boolean
+ */
+export function isTypeExpectedByPolicy(policy: FilePolicy, mimeType: string, extensions: string[] = []): boolean {
+  return matchesMimeType(normalizeMimeType(mimeType), policy.allowedMimeTypes)
+    || extensions.some(extension => policy.allowedExtensions.includes(extension));
+}
+
+/**
+ * 格式化文件大小
+ * @param size 字节数
+ * @returns string
+ */
+export function formatFileSize(size: number): string {
+  return size >= 1024 * 1024 ? `${(size / 1024 / 1024).toFixed(2)} MB` : `${(size / 1024).toFixed(2)} KB`;
+}
+
+/**
+ * 检查文件类型是否允许
+ * @param policy 过滤策略
+ * @param mimeType MIME类型
+ * @param fileName 文件名
+ * @throws {FilePolicyError}
+ */
+export function assertFileTypeAllowed(policy: FilePolicy, mimeType: string | null | undefined, fileName: string): void {
+  const type = normalizeMimeType(mimeType);
+  const extension = getExtension(fileName);
+  const label = [type, extension && `.${extension}`].filter(Boolean).join(', ') || t('fileTypeUnknown');
+
+  if ((type && matchesMimeType(type, policy.deniedMimeTypes)) || (extension && policy.deniedExtensions.includes(extension))) {
+    throw new FilePolicyError('FILE_TYPE_NOT_ALLOWED', 'errorFileTypeDenied', { type: label });
+  }
+  if ((policy.allowedMimeTypes.length > 0 && !matchesMimeType(type, policy.allowedMimeTypes))
+    || (policy.allowedExtensions.length > 0 && !policy.allowedExtensions.includes(extension))) {
+    throw new FilePolicyError('FILE_TYPE_NOT_ALLOWED', 'errorFileTypeNotAllowed', { type: label });
+  }
+}
+
+/**
+ * 检查文件大小是否超过其类别的上限
+ * @param policy 过滤策略
+ * @param size 文件大小（字节）
+ * @param mimeType MIME类型
+ * @param fileName 文件名
+ * @throws {TooLargeError}
+ */
+export function assertFileSizeAllowed(policy: FilePolicy, size: number, mimeType: string | null | undefined, fileName: string): void {
+  const category = getFileCategory(mimeType, fileName);
+  const limit = getMaxFileSize(policy, category);
+  if (size > limit) {
+    throw new TooLargeError(size, limit, category);
+  }
+}
+
+/**
+ * 将逗号、空格或换行分隔的文本解析为列表（小写、去重，扩展名去掉开头的点）
+ * @param text 输入文本
+ * @returns string[]
+ */
+export function parsePolicyList(text: string | undefined): string[] {
+  const items = (text || '')
+    .split(/[\s,，]+/)
+    .map(item => item.trim().toLowerCase().replace(/^\./, ''))
+    .filter(Boolean);
+  return Array.from(new Set(items));
+}
+
+/**
+ * 根据表单设置构建过滤策略
+ * @param settings 过滤设置
+ * @returns FilePolicy
+ */
+export function buildFilePolicy(settings: FilePolicySettings): FilePolicy {
+  const sizes = settings.maxFileSizeMb || {};
+  const maxSize: FilePolicy['maxSize'] = {};
+  FILE_CATEGORIES.forEach(category => {
+    const size = sizes[category];
+    if (size && size > 0) {
+      maxSize[category] = size * 1024 * 1024;
+    }
+  });
+  return {
+    defaultMaxSize: (sizes.default && sizes.default > 0 ? sizes.default : DEFAULT_MAX_FILE_SIZE_MB) * 1024 * 1024,
+    maxSize,
+    allowedMimeTypes: parsePolicyList(settings.allowedMimeTypes),
+    deniedMimeTypes: parsePolicyList(settings.deniedMimeTypes),
+    allowedExtensions: parsePolicyList(settings.allowedExtensions),
+    deniedExtensions: parsePolicyList(settings.deniedExtensions),
+  };
+}
+
+// 未配置过滤设置时使用的策略：只限制大小
+export const DEFAULT_FILE_POLICY: FilePolicy = buildFilePolicy({});
+
+/**
+ * 将策略编码为可放入请求头的字符串（JSON的Base64）
+ * @param policy 过滤策略
+ * @returns string
+ */
+export function encodeFilePolicy(policy: FilePolicy): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(policy));
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
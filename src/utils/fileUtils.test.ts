@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { NotAFileError } from './errors';
+import { detectNonFilePage } from './fileUtils';
+import { buildFilePolicy } from './filePolicy';
+
+const LOGIN_PAGE = '<!DOCTYPE html><html><head><title>Welcome</title></head><body><form></form></body></html>';
+
+/**
+ * 创建指定类型的文件
+ * @param content 文件内容
+ * @param type MIME类型
+ */
+function createBlob(content: string, type = 'text/html'): Blob {
+  return new Blob([content], { type });
+}
+
+describe('detectNonFilePage', () => {
+  it('flags an HTML page from an extensionless signed URL', async () => {
+    const error = await detectNonFilePage(createBlob(LOGIN_PAGE), 'https://cdn.example.com/f/8d7a9c?sig=abc');
+
+    expect(error).toBeInstanceOf(NotAFileError);
+    expect(error?.extension).toBeUndefined();
+    expect(error?.title).toBe('Welcome');
+  });
+
+  it('flags an HTML page when the URL expects another file type', async () => {
+    const error = await detectNonFilePage(createBlob(LOGIN_PAGE), 'https://cdn.example.com/report.pdf');
+
+    expect(error?.extension).toBe('pdf');
+  });
+
+  it('flags HTML content served without a declared type', async () => {
+    const error = await detectNonFilePage(createBlob(LOGIN_PAGE, ''), 'https://cdn.example.com/download');
+
+    expect(error).toBeInstanceOf(NotAFileError);
+  });
+
+  it('accepts HTML when the URL or Content-Disposition names a web page', async () => {
+    expect(await detectNonFilePage(createBlob(LOGIN_PAGE), 'https://example.com/docs/index.html')).toBeNull();
+    expect(await detectNonFilePage(createBlob(LOGIN_PAGE), 'https://example.com/download?id=1', 'attachment; filename="page.htm"'))
+      .toBeNull();
+  });
+
+  it('accepts HTML when the file policy explicitly allows it', async () => {
+    const policy = buildFilePolicy({ allowedMimeTypes: 'text/html, image/*' });
+
+    expect(await detectNonFilePage(createBlob(LOGIN_PAGE), 'https://example.com/download', null, policy)).toBeNull();
+  });
+
+  it('finds error titles after a long head and with attributes', async () => {
+    const page = `<!DOCTYPE html><html><head>${'<meta name="x" content="y">'.repeat(200)}`
+      + '<title data-rh="true">Sign in - Example</title></head></html>';
+
+    const error = await detectNonFilePage(createBlob(page), 'https://example.com/docs/index.html');
+
+    expect(error?.title).toBe('Sign in - Example');
+  });
+
+  it('flags object storage XML errors but accepts other XML without an extension', async () => {
+    const s3Error = '<?xml version="1.0"?><Error><Code>AccessDenied</Code><Message>Expired</Message></Error>';
+    const feed = '<?xml version="1.0"?><items><item>1</item></items>';
+
+    expect(await detectNonFilePage(createBlob(s3Error, 'application/xml'), 'https://bucket.example.com/a.jpg'))
+      .toBeInstanceOf(NotAFileError);
+    expect(await detectNonFilePage(createBlob(feed, 'application/xml'), 'https://example.com/export')).toBeNull();
+    expect((await detectNonFilePage(createBlob(feed, 'application/xml'), 'https://example.com/export.zip'))?.extension)
+      .toBe('zip');
+  });
+
+  it('accepts SVG images and binary files', async () => {
+    const svg = '<?xml version="1.0"?><!-- icon --><svg xmlns="http://www.w3.org/2000/svg"></svg>';
+
+    expect(await detectNonFilePage(createBlob(svg, 'image/svg+xml'), 'https://example.com/icon')).toBeNull();
+    expect(await detectNonFilePage(createBlob('\x89PNG....', 'image/png'), 'https://example.com/a')).toBeNull();
+  });
+});
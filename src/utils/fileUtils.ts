@@ -3,18 +3,146 @@
  * 用于处理URL下载和文件上传
  */
 
+import { t } from 'i18next';
+import { buildProxyUrl } from './proxyAuth';
+import { encodeHeaderRules, getHeadersForUrl, HeaderRule, HEADER_RULES_PROXY_HEADER } from './headerRules';
+import {
+  assertFileSizeAllowed,
+  assertFileTypeAllowed,
+  encodeFilePolicy,
+  FilePolicy,
+  FilePolicyError,
+  TooLargeError,
+  DEFAULT_FILE_POLICY,
+  FILE_POLICY_PROXY_HEADER,
+  isTypeExpectedByPolicy,
+} from './filePolicy';
+import { parseRetryAfter } from './retry';
+import {
+  ConversionError,
+  CorsError,
+  DownloadError,
+  EmptyFileError,
+  NotAFileError,
+  ProxyError,
+  UpstreamHttpError,
+} from './errors';
+
+// 代理因目标地址策略拒绝请求时返回的错误码，这类错误不应再尝试直接下载
+// 文件被过滤策略拒绝（FILE_TOO_LARGE、FILE_TYPE_NOT_ALLOWED）时同样不再直接下载
+const PROXY_POLICY_ERROR_CODES = [
+  'INVALID_URL',
+  'INVALID_PROTOCOL',
+  'PRIVATE_ADDRESS',
+  'DOMAIN_DENIED',
+  'DOMAIN_NOT_ALLOWED',
+  'DNS_LOOKUP_FAILED',
+  'TOO_MANY_REDIRECTS',
+];
+
+export interface DownloadOptions {
+  /** 中止信号，中止时会取消正在进行的请求 */
+  signal?: AbortSignal;
+  /** 授权码，用于对代理请求签名 */
+  authCode?: string;
+  /** 按主机附加的自定义请求头规则 */
+  headerRules?: HeaderRule[];
+  /** 文件大小和类型过滤策略，代理和客户端共同执行 */
+  filePolicy?: FilePolicy;
+  /** 是否允许保存HTML/XML页面，默认会将其视为“不是文件”的失败 */
+  allowHtml?: boolean;
+}
+
+export interface DownloadResult {
+  blob: Blob;
+  /** 响应的Content-Disposition头（代理会透传上游的值） */
+  contentDisposition: string | null;
+}
+
+export interface ProbeResult {
+  /** 文件名（取自Content-Disposition或最终URL的路径） */
+  fileName: string;
+  mimeType: string | null;
+  /** 文件大小（字节），服务器未声明时为null */
+  size: number | null;
+}
+
+/**
+ * 构建发送给代理的请求头
+ * @param headerRules 自定义请求头规则
+ * @param filePolicy 文件过滤策略
+ * @returns Record<string, string>
+ */
+function getProxyRequestHeaders(headerRules: HeaderRule[], filePolicy: FilePolicy): Record<string, string> {
+  return {
+    'Accept': '*/*',
+    // 规则交给代理按主机匹配，重定向到其他主机时不会附加不匹配的请求头
+    ...(headerRules.length > 0 ? { [HEADER_RULES_PROXY_HEADER]: encodeHeaderRules(headerRules) } : {}),
+    [FILE_POLICY_PROXY_HEADER]: encodeFilePolicy(filePolicy),
+  };
+}
+
+/**
+ * 将代理返回的策略错误转换为客户端错误，这类错误不应再尝试直接下载
+ * @param errorData 代理返回的错误JSON
+ * @param status 代理响应的状态码
+ * @param url 文件URL
+ * @returns ConversionError | null 不是策略错误时为null
+ */
+function getProxyPolicyError(errorData: any, status: number, url: string): ConversionError | null {
+  if (errorData?.code && PROXY_POLICY_ERROR_CODES.includes(errorData.code)) {
+    return new ProxyError(errorData.error, { status, url, proxyCode: errorData.code, blocked: true });
+  }
+  if (errorData?.code === 'FILE_TOO_LARGE') {
+    return new TooLargeError(errorData.size || null, errorData.limit);
+  }
+  if (errorData?.code === 'FILE_TYPE_NOT_ALLOWED') {
+    const type = errorData.mimeType || errorData.extension;
+    return new FilePolicyError('FILE_TYPE_NOT_ALLOWED', 'errorFileTypeDenied', { type });
+  }
+  return null;
+}
+
+/**
+ * 将代理返回的非2xx响应转换为错误
+ * 响应中带有上游状态码时为上游的HTTP错误（代理会透传状态码和 Retry-After），否则为代理本身的错误
+ * @param response 代理响应
+ * @param errorData 代理返回的错误JSON，不是JSON时为null
+ * @param url 文件URL
+ * @returns ConversionError
+ */
+function getProxyResponseError(response: Response, errorData: any, url: string): ConversionError {
+  const policyError = getProxyPolicyError(errorData, response.status, url);
+  if (policyError) {
+    return policyError;
+  }
+  const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+  if (errorData?.status) {
+    return new UpstreamHttpError(errorData.status, errorData.statusText, retryAfter, undefined, url);
+  }
+  return new ProxyError(errorData?.error || response.statusText || 'Unknown', {
+    status: response.status,
+    url,
+    proxyCode: errorData?.code,
+  });
+}
+
 /**
  * 从URL下载文件
+ * 只使用指定的一种方式下载，代理失败后是否改为直接下载由调用方（转换引擎）决定
  * @param url 文件URL
  * @param useProxy 是否使用代理（默认true，用于解决CORS问题）
  * @param onLog 可选的日志回调函数
- * @returns Promise<Blob> 文件Blob对象
+ * @param options 可选的中止信号、授权码、自定义请求头规则、文件过滤策略和是否允许HTML
+ * @returns Promise<DownloadResult> 文件Blob对象和Content-Disposition头
  */
 export async function downloadFileFromUrl(
   url: string, 
   useProxy: boolean = true,
-  onLog?: (level: 'info' | 'warn' | 'error', message: string, data?: any) => void
-): Promise<Blob> {
+  onLog?: (level: 'info' | 'warn' | 'error', message: string, data?: any) => void,
+  options: DownloadOptions = {}
+): Promise<DownloadResult> {
+  const { signal, authCode, headerRules = [], filePolicy = DEFAULT_FILE_POLICY, allowHtml = false } = options;
   const log = onLog || ((level, message, data) => {
     const method = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
     if (data !== undefined) {
@@ -24,79 +152,92 @@ export async function downloadFileFromUrl(
     }
   });
   try {
-    log('info', `开始下载: ${url}, 使用代理: ${useProxy}`);
+    log('info', t('logDownloadStart', { url, proxy: useProxy ? t('yes') : t('no') }));
+
+    // 只记录请求头名称，避免在日志中泄露密钥
+    const customHeaders = getHeadersForUrl(headerRules, url);
+    const customHeaderNames = Object.keys(customHeaders);
+    if (customHeaderNames.length > 0) {
+      log('info', t('logCustomHeaders', { headers: customHeaderNames.join(', ') }));
+    }
     
     let response: Response | null = null;
 
-    // 如果使用代理，通过代理API下载
+    // 如果使用代理，通过代理API下载；代理失败时抛出错误，由调用方决定是否改为直接下载
     if (useProxy) {
       try {
-        // 获取当前部署的域名
-        const baseUrl = window.location.origin;
-        const proxyUrl = `${baseUrl}/api/proxy?url=${encodeURIComponent(url)}`;
-        log('info', `通过代理下载: ${proxyUrl}`);
+        // 使用当前部署的域名，提供授权码时附带签名
+        const proxyHeaders = getProxyRequestHeaders(headerRules, filePolicy);
+        const proxyUrl = await buildProxyUrl(url, authCode, proxyHeaders);
+        log('info', authCode?.trim() ? t('logViaProxySigned', { url }) : t('logViaProxy', { url }));
         
         const proxyResponse = await fetch(proxyUrl, {
           method: 'GET',
           mode: 'cors',
           credentials: 'omit',
-          headers: {
-            'Accept': '*/*',
-          },
+          headers: proxyHeaders,
+          signal,
         });
 
-        log('info', `代理响应状态: ${proxyResponse.status} ${proxyResponse.statusText}`);
+        log('info', t('logProxyStatus', { status: proxyResponse.status, statusText: proxyResponse.statusText }));
 
         if (proxyResponse.ok) {
           response = proxyResponse;
-          log('info', '代理下载成功，使用代理响应');
+          log('info', t('logProxySuccess'));
         } else {
           // 如果代理返回错误，尝试读取错误信息
+          let errorData: any = null;
           try {
             const contentType = proxyResponse.headers.get('content-type');
             if (contentType && contentType.includes('application/json')) {
-              const errorData = await proxyResponse.json();
-              log('error', `代理下载失败，状态码: ${proxyResponse.status}`, errorData);
+              errorData = await proxyResponse.json();
+              log('error', t('logProxyFailed', { status: proxyResponse.status }), errorData);
               // 如果代理返回的错误是因为目标URL的问题（如500），记录详细信息
               if (proxyResponse.status >= 500) {
-                log('error', '代理返回服务器错误，可能是目标URL服务器的问题（如HTTP 500）');
+                log('error', t('logProxyServerError'));
               }
             } else {
               const errorText = await proxyResponse.text();
-              log('error', `代理下载失败，状态码: ${proxyResponse.status}`, { response: errorText.substring(0, 200) });
+              log('error', t('logProxyFailed', { status: proxyResponse.status }), { response: errorText.substring(0, 200) });
             }
           } catch (e) {
-            log('warn', '无法解析代理错误响应', e);
+            log('warn', t('logProxyUnparsable'), e);
           }
-          // 继续尝试直接下载（虽然可能也会失败）
+          throw getProxyResponseError(proxyResponse, errorData, url);
         }
       } catch (proxyError: any) {
-        log('warn', `代理下载异常: ${proxyError?.message || String(proxyError)}`, proxyError);
-        log('info', '将尝试直接下载');
-        // 代理失败，继续尝试直接下载
+        if (signal?.aborted || proxyError instanceof ConversionError) {
+          throw proxyError;
+        }
+        // 代理请求没有收到任何响应（没有状态码）
+        log('warn', t('logProxyException', { detail: proxyError?.message || String(proxyError) }), proxyError);
+        throw new ProxyError(proxyError?.message || String(proxyError), { url });
       }
-    }
-
-    // 如果代理未成功，尝试直接下载
-    if (!response) {
+    } else {
       try {
-        log('info', `尝试直接下载: ${url}`);
+        log('info', t('logTryDirect', { url }));
         response = await fetch(url, {
           method: 'GET',
           mode: 'cors',
           credentials: 'omit',
+          // 浏览器会忽略 Cookie、Referer 等受限请求头，这类请求头只能通过代理发送
+          headers: customHeaders,
+          signal,
         });
-        log('info', `直接下载响应状态: ${response.status} ${response.statusText}`);
+        log('info', t('logDirectStatus', { status: response.status, statusText: response.statusText }));
       } catch (corsError: any) {
+        if (signal?.aborted) {
+          throw corsError;
+        }
         // 如果CORS失败，抛出错误
-        log('error', `CORS下载失败: ${corsError?.message || String(corsError)}`, corsError);
-        throw new Error(`CORS限制：无法下载该文件。错误: ${corsError?.message || String(corsError)}。如果文件服务器不支持跨域访问，代理模式应该能解决此问题，但如果代理也失败，请联系管理员。`);
+        log('error', t('logCorsFailed', { detail: corsError?.message || String(corsError) }), corsError);
+        throw new CorsError(corsError?.message || String(corsError), url);
       }
     }
 
     // 确保response存在
     if (!response) {
-      throw new Error('无法获取文件响应，代理和直接下载都失败了');
+      throw new DownloadError(t('errorNoResponse'), url);
     }
 
     if (!response.ok) {
@@ -107,44 +248,115 @@ export async function downloadFileFromUrl(
       } catch (e) {
         // 忽略读取错误文本的失败
       }
-      throw new Error(`HTTP错误! 状态码: ${response.status}, 状态文本: ${response.statusText || 'Unknown'}${errorDetails ? ', 详情: ' + errorDetails : ''}`);
+      throw new UpstreamHttpError(
+        response.status,
+        response.statusText,
+        parseRetryAfter(response.headers.get('retry-after')),
+        errorDetails,
+        url
+      );
     }
 
-    // 检查文件大小（20MB限制）
+    // 按文件类别检查大小上限，先检查声明的大小，下载完成后再检查实际大小
+    const declaredType = response.headers.get('content-type');
+    const urlFileName = getFileNameFromUrl(url);
     const contentLength = response.headers.get('content-length');
     if (contentLength) {
-      const fileSize = parseInt(contentLength, 10);
-      const maxSize = 20 * 1024 * 1024; // 20MB
-      if (fileSize > maxSize) {
-        throw new Error(`File size (${(fileSize / 1024 / 1024).toFixed(2)}MB) exceeds 20M`);
-      }
+      assertFileSizeAllowed(filePolicy, parseInt(contentLength, 10), declaredType, urlFileName);
     }
 
     const blob = await response.blob();
-    log('info', `下载完成，大小: ${blob.size} bytes, 类型: ${blob.type || 'unknown'}`);
+    log('info', t('logDownloadComplete', { size: blob.size, type: blob.type || t('fileTypeUnknown') }));
     
     // 如果无法获取content-length，检查blob大小
-    if (blob.size > 20 * 1024 * 1024) {
-      throw new Error(`File size (${(blob.size / 1024 / 1024).toFixed(2)}MB) exceeds 20M`);
-    }
+    assertFileSizeAllowed(filePolicy, blob.size, blob.type || declaredType, urlFileName);
 
     // 检查blob是否为空
     if (blob.size === 0) {
-      throw new Error('下载的文件为空');
+      throw new EmptyFileError(url);
+    }
+
+    // 过期的签名链接和鉴权页面常以200返回HTML，不能当作文件保存
+    const contentDisposition = response.headers.get('content-disposition');
+    if (!allowHtml) {
+      const notAFileError = await detectNonFilePage(blob, url, contentDisposition, filePolicy);
+      if (notAFileError) {
+        throw notAFileError;
+      }
     }
 
-    return blob;
+    return {
+      blob,
+      contentDisposition,
+    };
   } catch (error: any) {
-    log('error', `下载文件错误: ${error?.message || String(error)}`, error);
-    // 提供更详细的错误信息
-    if (error.message) {
-      throw new Error(`下载失败: ${error.message}`);
-    } else if (error.name === 'TypeError' && error.message && error.message.includes('fetch')) {
-      throw new Error('网络错误：无法连接到文件服务器，请检查URL是否正确');
-    } else {
-      throw new Error(`下载失败: ${String(error)}`);
+    // 中止导致的错误原样抛出，便于调用方区分取消和失败
+    if (signal?.aborted) {
+      log('warn', t('logDownloadCancelled', { url }));
+      throw error;
+    }
+    // 被过滤策略拒绝的文件原样抛出，调用方将记录标记为跳过
+    if (error instanceof FilePolicyError) {
+      log('warn', t('logFileRejected', { detail: error.message }));
+      throw error;
+    }
+    // 不是文件的页面原样抛出，不再尝试其他下载方式
+    if (error instanceof NotAFileError) {
+      log('error', t('logNotAFile', { detail: error.message }));
+      throw error;
     }
+    // 其他已分类的错误原样抛出，调用方据此判断是否回退或重试
+    if (error instanceof ConversionError) {
+      log('error', t('logDownloadError', { detail: error.message }));
+      throw error;
+    }
+    log('error', t('logDownloadError', { detail: error?.message || String(error) }), error);
+    throw new DownloadError(error?.message || String(error), url);
+  }
+}
+
+/**
+ * 通过代理探测文件的类型和大小，不下载文件内容（用于预览）
+ * 代理对上游发送HEAD请求，不支持时退回只请求第一个字节的Range请求；
+ * 探测结果同样按过滤策略和错误页规则检查，但只能根据响应头判断，实际转换时可能仍有差异
+ * @param url 文件URL
+ * @param options 可选的中止信号、授权码、自定义请求头规则、文件过滤策略和是否允许HTML
+ * @returns Promise<ProbeResult>
+ * @throws FilePolicyError 文件会被过滤规则拒绝
+ * @throws NotAFileError 服务器声明返回HTML/XML页面，但URL表明应该是其他类型的文件
+ */
+export async function probeFileFromUrl(url: string, options: DownloadOptions = {}): Promise<ProbeResult> {
+  const { signal, authCode, headerRules = [], filePolicy = DEFAULT_FILE_POLICY, allowHtml = false } = options;
+  const proxyHeaders = getProxyRequestHeaders(headerRules, filePolicy);
+  const proxyUrl = `${await buildProxyUrl(url, authCode, proxyHeaders)}&probe=1`;
+  const response = await fetch(proxyUrl, {
+    method: 'GET',
+    mode: 'cors',
+    credentials: 'omit',
+    headers: proxyHeaders,
+    signal,
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw getProxyResponseError(response, data, url);
+  }
+
+  const mimeType: string | null = data?.contentType || null;
+  const size: number | null = typeof data?.size === 'number' ? data.size : null;
+  const fileName = parseContentDisposition(data?.contentDisposition) || getFileNameFromUrl(data?.finalUrl || url);
+
+  assertFileTypeAllowed(filePolicy, mimeType, fileName);
+  if (size !== null) {
+    assertFileSizeAllowed(filePolicy, size, mimeType, fileName);
   }
+  // 探测时只有响应头，规则与 detectNonFilePage 相同，但无法检查页面内容
+  if (!allowHtml && mimeType && MARKUP_MIME_PATTERN.test(mimeType)) {
+    const extension = fileName.match(EXTENSION_PATTERN)?.[1].toLowerCase();
+    if (!isMarkupExpected(mimeType, extension, filePolicy) && (extension || HTML_MIME_PATTERN.test(mimeType))) {
+      throw new NotAFileError({ extension }, url);
+    }
+  }
+  return { fileName, mimeType, size };
 }
 
 /**
@@ -181,3 +393,251 @@ export function getFileNameFromUrl(url: string): string {
   }
 }
 
+
+// 常见MIME类型对应的扩展名
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/bmp': 'bmp',
+  'image/tiff': 'tiff',
+  'image/x-icon': 'ico',
+  'image/vnd.microsoft.icon': 'ico',
+  'image/heic': 'heic',
+  'image/avif': 'avif',
+  'application/pdf': 'pdf',
+  'application/zip': 'zip',
+  'application/x-zip-compressed': 'zip',
+  'application/gzip': 'gz',
+  'application/x-7z-compressed': '7z',
+  'application/vnd.rar': 'rar',
+  'application/x-rar-compressed': 'rar',
+  'application/msword': 'doc',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.ms-excel': 'xls',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.ms-powerpoint': 'ppt',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'application/json': 'json',
+  'application/xml': 'xml',
+  'text/plain': 'txt',
+  'text/csv': 'csv',
+  'text/html': 'html',
+  'text/xml': 'xml',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm',
+  'video/x-msvideo': 'avi',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+};
+
+// 文件名末尾的扩展名
+const EXTENSION_PATTERN = /\.([a-z0-9]{1,8})$/i;
+
+/**
+ * 从Content-Disposition头中解析文件名
+ * 优先使用 RFC 5987 的 filename*（支持UTF-8编码），其次使用 filename
+ * @param header Content-Disposition头
+ * @returns string | null 文件名
+ */
+export function parseContentDisposition(header: string | null | undefined): string | null {
+  if (!header) {
+    return null;
+  }
+
+  let fileName: string | null = null;
+
+  const extendedMatch = header.match(/filename\*\s*=\s*([^;]+)/i);
+  if (extendedMatch) {
+    // 格式: UTF-8''%E6%96%87%E4%BB%B6.png
+    const value = extendedMatch[1].trim().replace(/^"(.*)"$/, '$1');
+    const encoded = value.includes("''") ? value.slice(value.indexOf("''") + 2) : value;
+    try {
+      fileName = decodeURIComponent(encoded);
+    } catch {
+      fileName = encoded;
+    }
+  }
+
+  if (!fileName) {
+    const plainMatch = header.match(/filename\s*=\s*("((?:\\.|[^"\\])*)"|[^;]+)/i);
+    if (plainMatch) {
+      fileName = (plainMatch[2] !== undefined ? plainMatch[2].replace(/\\(.)/g, '$1') : plainMatch[1]).trim();
+    }
+  }
+
+  // 去掉路径部分，避免文件名中包含目录
+  const baseName = fileName?.split(/[\\/]/).pop()?.trim();
+  return baseName || null;
+}
+
+/**
+ * 根据MIME类型获取扩展名
+ * @param mimeType MIME类型（可包含参数，如 charset）
+ * @returns string | null 扩展名（不含点）
+ */
+export function getExtensionFromMimeType(mimeType: string | null | undefined): string | null {
+  if (!mimeType) {
+    return null;
+  }
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  return MIME_EXTENSIONS[type] || null;
+}
+
+/**
+ * 根据文件头部的魔数识别文件类型
+ * @param blob 文件Blob对象
+ * @returns Promise<{ extension, mimeType } | null>
+ */
+export async function sniffFileType(blob: Blob): Promise<{ extension: string; mimeType: string } | null> {
+  const bytes = new Uint8Array(await blob.slice(0, 16).arrayBuffer());
+  const matches = (offset: number, signature: number[]) =>
+    signature.every((byte, index) => bytes[offset + index] === byte);
+  const ascii = (offset: number, length: number) =>
+    String.fromCharCode(...Array.from(bytes.slice(offset, offset + length)));
+
+  if (matches(0, [0x89, 0x50, 0x4e, 0x47])) return { extension: 'png', mimeType: 'image/png' };
+  if (matches(0, [0xff, 0xd8, 0xff])) return { extension: 'jpg', mimeType: 'image/jpeg' };
+  if (ascii(0, 4) === 'GIF8') return { extension: 'gif', mimeType: 'image/gif' };
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') return { extension: 'webp', mimeType: 'image/webp' };
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WAVE') return { extension: 'wav', mimeType: 'audio/wav' };
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'AVI ') return { extension: 'avi', mimeType: 'video/x-msvideo' };
+  if (ascii(0, 4) === '%PDF') return { extension: 'pdf', mimeType: 'application/pdf' };
+  if (matches(0, [0x50, 0x4b, 0x03, 0x04])) return { extension: 'zip', mimeType: 'application/zip' };
+  if (matches(0, [0x1f, 0x8b])) return { extension: 'gz', mimeType: 'application/gzip' };
+  if (matches(0, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c])) return { extension: '7z', mimeType: 'application/x-7z-compressed' };
+  if (ascii(0, 4) === 'Rar!') return { extension: 'rar', mimeType: 'application/vnd.rar' };
+  if (ascii(0, 2) === 'BM') return { extension: 'bmp', mimeType: 'image/bmp' };
+  if (matches(0, [0x49, 0x49, 0x2a, 0x00]) || matches(0, [0x4d, 0x4d, 0x00, 0x2a])) {
+    return { extension: 'tiff', mimeType: 'image/tiff' };
+  }
+  if (matches(0, [0x00, 0x00, 0x01, 0x00])) return { extension: 'ico', mimeType: 'image/x-icon' };
+  if (matches(0, [0x1a, 0x45, 0xdf, 0xa3])) return { extension: 'webm', mimeType: 'video/webm' };
+  if (ascii(0, 4) === 'OggS') return { extension: 'ogg', mimeType: 'audio/ogg' };
+  if (ascii(0, 3) === 'ID3' || matches(0, [0xff, 0xfb])) return { extension: 'mp3', mimeType: 'audio/mpeg' };
+  if (ascii(4, 4) === 'ftyp') {
+    // ISO BMFF 容器，根据品牌区分具体格式
+    const brand = ascii(8, 4);
+    if (brand === 'qt  ') return { extension: 'mov', mimeType: 'video/quicktime' };
+    if (brand === 'heic' || brand === 'heix' || brand === 'mif1') return { extension: 'heic', mimeType: 'image/heic' };
+    if (brand === 'avif') return { extension: 'avif', mimeType: 'image/avif' };
+    if (brand === 'M4A ') return { extension: 'm4a', mimeType: 'audio/mp4' };
+    return { extension: 'mp4', mimeType: 'video/mp4' };
+  }
+  return null;
+}
+
+/**
+ * 确定附件的文件名和MIME类型
+ * 文件名优先级：Content-Disposition > URL路径最后一段；
+ * 缺少扩展名时依次从响应的MIME类型和文件魔数推断
+ * @param url 文件URL
+ * @param blob 文件Blob对象
+ * @param contentDisposition 响应的Content-Disposition头
+ * @returns Promise<{ fileName, mimeType }>
+ */
+export async function resolveFileInfo(
+  url: string,
+  blob: Blob,
+  contentDisposition?: string | null
+): Promise<{ fileName: string; mimeType: string }> {
+  const fileName = parseContentDisposition(contentDisposition) || getFileNameFromUrl(url) || 'file';
+  const declaredType = blob.type && blob.type !== 'application/octet-stream' ? blob.type : '';
+
+  // 魔数识别仅在缺少扩展名或缺少MIME类型时进行
+  const hasExtension = EXTENSION_PATTERN.test(fileName);
+  const sniffed = !hasExtension || !declaredType ? await sniffFileType(blob) : null;
+  const mimeType = declaredType || sniffed?.mimeType || 'application/octet-stream';
+
+  if (hasExtension) {
+    return { fileName, mimeType };
+  }
+
+  const extension = getExtensionFromMimeType(declaredType) || sniffed?.extension;
+  return {
+    fileName: extension ? `${fileName}.${extension}` : fileName,
+    mimeType,
+  };
+}
+
+// 本身就是标记语言的扩展名，这类URL返回HTML/XML属于正常情况
+const MARKUP_EXTENSIONS = ['html', 'htm', 'xhtml', 'xml', 'svg', 'rss', 'atom'];
+
+// 声明为HTML/XML的MIME类型
+const MARKUP_MIME_PATTERN = /^(text\/html|application\/xhtml\+xml|text\/xml|application\/xml)\b/i;
+
+// 声明为HTML页面的MIME类型
+const HTML_MIME_PATTERN = /^(text\/html|application\/xhtml\+xml)\b/i;
+
+// 检查错误页特征时读取的内容长度，<title> 可能位于很长的 <head> 之后
+const PAGE_SCAN_BYTES = 64 * 1024;
+
+// 页面标题，<title> 可以带属性
+const TITLE_PATTERN = /<title\b[^>]*>([^<]*)<\/title>/i;
+
+// 常见错误页和登录页的特征：对象存储的XML错误、页面标题中的错误或登录字样
+const ERROR_PAGE_PATTERNS = [
+  /<Error>\s*<Code>[^<]+<\/Code>/i,
+  /<title\b[^>]*>[^<]*(login|log in|sign in|signin|unauthorized|forbidden|access denied|not found|error|expired|40[134]|50[0234]|登录|登陆|错误|无权|过期|不存在)[^<]*<\/title>/i,
+];
+
+/**
+ * 判断URL或文件名是否表明这是HTML/XML页面，或任务的过滤策略明确期望这类文件
+ * @param mimeType 声明或识别到的MIME类型
+ * @param extension URL或Content-Disposition中的扩展名
+ * @param filePolicy 任务的文件过滤策略
+ * @returns boolean
+ */
+function isMarkupExpected(mimeType: string, extension: string | undefined, filePolicy: FilePolicy): boolean {
+  return (!!extension && MARKUP_EXTENSIONS.includes(extension)) || isTypeExpectedByPolicy(filePolicy, mimeType, MARKUP_EXTENSIONS);
+}
+
+/**
+ * 判断下载的内容是否是伪装成文件的HTML/XML页面
+ * 以下情况返回对应的错误：
+ * - 内容符合常见错误页特征
+ * - 内容是HTML页面，且URL、文件名和过滤策略都没有表明需要HTML（包括没有扩展名的签名链接）
+ * - 内容是XML，且URL或文件名表明应该是其他类型的文件
+ * @param blob 下载的文件
+ * @param url 文件URL
+ * @param contentDisposition Content-Disposition头
+ * @param filePolicy 任务的文件过滤策略，白名单明确允许HTML/XML时视为期望的类型
+ * @returns Promise<NotAFileError | null> 不是错误页时为null
+ */
+export async function detectNonFilePage(
+  blob: Blob,
+  url: string,
+  contentDisposition?: string | null,
+  filePolicy: FilePolicy = DEFAULT_FILE_POLICY
+): Promise<NotAFileError | null> {
+  const content = (await blob.slice(0, PAGE_SCAN_BYTES).text()).trimStart(); // trimStart同时去掉BOM
+  const looksLikeHtml = HTML_MIME_PATTERN.test(blob.type) || /^<(!doctype html|html|head|body)\b/i.test(content);
+  const looksLikeMarkup = looksLikeHtml || MARKUP_MIME_PATTERN.test(blob.type) || /^<\?xml\b/i.test(content);
+  // SVG是XML格式的图片，属于正常文件
+  if (!looksLikeMarkup || /^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<svg\b/i.test(content)) {
+    return null;
+  }
+
+  const title = content.match(TITLE_PATTERN)?.[1].trim() || undefined;
+  if (ERROR_PAGE_PATTERNS.some(pattern => pattern.test(content))) {
+    return new NotAFileError({ title }, url);
+  }
+
+  const fileName = parseContentDisposition(contentDisposition) || getFileNameFromUrl(url);
+  const extension = fileName.match(EXTENSION_PATTERN)?.[1].toLowerCase();
+  const mimeType = blob.type || (looksLikeHtml ? 'text/html' : 'application/xml');
+  if (isMarkupExpected(mimeType, extension, filePolicy)) {
+    return null;
+  }
+  if (extension || looksLikeHtml) {
+    return new NotAFileError({ extension, title }, url);
+  }
+  return null;
+}
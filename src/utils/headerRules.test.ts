@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { encodeHeaderRules, getHeadersForUrl, matchesHostPattern, parseHeaderRules } from './headerRules';
+
+describe('parseHeaderRules', () => {
+  it('merges lines for the same host and skips comments and blank lines', () => {
+    const result = parseHeaderRules([
+      '# private CDN',
+      'CDN.example.com Authorization: Bearer abc',
+      '',
+      'cdn.example.com Referer: https://example.com/',
+      '*.files.example.com Cookie: session=1; theme=dark',
+    ].join('\n'));
+
+    expect(result.invalidLines).toEqual([]);
+    expect(result.rules).toEqual([
+      { hostPattern: 'cdn.example.com', headers: { Authorization: 'Bearer abc', Referer: 'https://example.com/' } },
+      { hostPattern: '*.files.example.com', headers: { Cookie: 'session=1; theme=dark' } },
+    ]);
+  });
+
+  it.each([
+    ['a reserved header', 'cdn.example.com Host: other.example.com'],
+    ['a reserved header in another case', 'cdn.example.com Proxy-Authorization: Basic abc'],
+    ['a host pattern with a path', 'cdn.example.com/files Authorization: x'],
+    ['a wildcard in the middle', 'cdn.*.example.com Authorization: x'],
+    ['a header name with spaces', 'cdn.example.com X Token: x'],
+    ['a line without a header', 'cdn.example.com'],
+  ])('rejects %s', (_, line) => {
+    expect(parseHeaderRules(`a.com X-Ok: 1\n${line}`)).toEqual({
+      rules: [{ hostPattern: 'a.com', headers: { 'X-Ok': '1' } }],
+      invalidLines: [2],
+    });
+  });
+});
+
+describe('matchesHostPattern', () => {
+  it.each([
+    ['cdn.example.com', 'cdn.example.com', true],
+    ['CDN.Example.com', 'cdn.example.com', true],
+    ['a.cdn.example.com', 'cdn.example.com', false],
+    ['a.example.com', '*.example.com', true],
+    ['a.b.example.com', '*.example.com', true],
+    ['example.com', '*.example.com', false],
+    ['evilexample.com', '*.example.com', false],
+  ])('%s against %s is %s', (hostname, pattern, expected) => {
+    expect(matchesHostPattern(hostname, pattern)).toBe(expected);
+  });
+});
+
+describe('getHeadersForUrl', () => {
+  const { rules } = parseHeaderRules([
+    '*.example.com Referer: https://example.com/',
+    '*.example.com Authorization: wildcard',
+    'cdn.example.com Authorization: exact',
+  ].join('\n'));
+
+  it('only returns headers for matching hosts, with later rules taking priority', () => {
+    expect(getHeadersForUrl(rules, 'https://cdn.example.com/a.png')).toEqual({ Referer: 'https://example.com/', Authorization: 'exact' });
+    expect(getHeadersForUrl(rules, 'https://img.example.com/a.png')).toEqual({ Referer: 'https://example.com/', Authorization: 'wildcard' });
+    expect(getHeadersForUrl(rules, 'https://other.com/a.png')).toEqual({});
+  });
+
+  it('returns no headers for an invalid URL', () => {
+    expect(getHeadersForUrl(rules, 'not a url')).toEqual({});
+  });
+});
+
+describe('encodeHeaderRules', () => {
+  it('encodes non-ASCII values as UTF-8 JSON in base64', () => {
+    const rules = [{ hostPattern: 'a.com', headers: { 'X-Name': '名前' } }];
+
+    expect(JSON.parse(Buffer.from(encodeHeaderRules(rules), 'base64').toString('utf8'))).toEqual(rules);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * 自定义请求头规则工具函数
+ * 按主机名为私有文件源附加请求头（如 Authorization、Cookie、Referer），
+ * 规则会发送给代理，由代理在每次请求（包括重定向）时只对匹配的主机附加
+ */
+
+const HEADER_RULES_STORAGE_KEY = 'url2file:headerRules';
+
+// 传递规则给代理的请求头，与 api/_lib/headerRules.js 保持一致
+export const HEADER_RULES_PROXY_HEADER = 'X-Url2file-Header-Rules';
+
+// 不允许自定义的请求头，由浏览器或代理控制
+const RESERVED_HEADER_NAMES = [
+  'host',
+  'connection',
+  'content-length',
+  'transfer-encoding',
+  'upgrade',
+  'keep-alive',
+  'te',
+  'trailer',
+  'proxy-authorization',
+];
+
+// 规则行格式：主机模式 请求头名称: 值
+const RULE_LINE_PATTERN = /^(\S+)\s+([!#$%&'*+.^_`|~0-9A-Za-z-]+)\s*:\s*(.*)$/;
+
+// 主机模式：example.com 或 *.example.com（匹配所有子域名）
+const HOST_PATTERN = /^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*$/i;
+
+export interface HeaderRule {
+  /** 主机模式，例如 cdn.example.com 或 *.example.com */
+  hostPattern: string;
+  headers: Record<string, string>;
+}
+
+export interface HeaderRulesParseResult {
+  rules: HeaderRule[];
+  /** 格式错误的行号（从1开始） */
+  invalidLines: number[];
+}
+
+/**
+ * 解析请求头规则文本
+ * 每行一条：主机模式 请求头名称: 值，空行和以 # 开头的行会被忽略，
+ * 同一主机模式的多行会合并为一条规则
+ * @param text 规则文本
+ * @returns HeaderRulesParseResult
+ */
+export function parseHeaderRules(text: string | undefined): HeaderRulesParseResult {
+  const rulesByHost = new Map<string, HeaderRule>();
+  const invalidLines: number[] = [];
+
+  (text || '').split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      return;
+    }
+    const match = line.match(RULE_LINE_PATTERN);
+    if (!match || !HOST_PATTERN.test(match[1]) || RESERVED_HEADER_NAMES.includes(match[2].toLowerCase())) {
+      invalidLines.push(index + 1);
+      return;
+    }
+    const hostPattern = match[1].toLowerCase();
+    const rule = rulesByHost.get(hostPattern) || { hostPattern, headers: {} };
+    rule.headers[match[2]] = match[3].trim();
+    rulesByHost.set(hostPattern, rule);
+  });
+
+  return { rules: Array.from(rulesByHost.values()), invalidLines };
+}
+
+/**
+ * 判断主机名是否匹配主机模式
+ * @param hostname 主机名
+ * @param hostPattern 主机模式
+ * @returns boolean
+ */
+export function matchesHostPattern(hostname: string, hostPattern: string): boolean {
+  const host = hostname.toLowerCase();
+  const pattern = hostPattern.toLowerCase();
+  if (pattern.startsWith('*.')) {
+    return host.endsWith(pattern.slice(1));
+  }
+  return host === pattern;
+}
+
+/**
+ * 获取URL匹配的请求头，多条规则匹配时后面的规则优先
+ * @param rules 请求头规则
+ * @param url 目标URL
+ * @returns Record<string, string>
+ */
+export function getHeadersForUrl(rules: HeaderRule[], url: string): Record<string, string> {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    return {};
+  }
+  return rules
+    .filter(rule => matchesHostPattern(hostname, rule.hostPattern))
+    .reduce<Record<string, string>>((headers, rule) => ({ ...headers, ...rule.headers }), {});
+}
+
+/**
+ * 将规则编码为可放入请求头的字符串（UTF-8 JSON 的 Base64）
+ * @param rules 请求头规则
+ * @returns string
+ */
+export function encodeHeaderRules(rules: HeaderRule[]): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(rules));
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+/**
+ * 读取保存在本机的规则文本
+ * @returns string
+ */
+export function loadHeaderRulesText(): string {
+  try {
+    return window.localStorage.getItem(HEADER_RULES_STORAGE_KEY) || '';
+  } catch (error) {
+    console.warn('Load header rules error:', error);
+    return '';
+  }
+}
+
+/**
+ * 保存规则文本到本机
+ * @param text 规则文本
+ */
+export function saveHeaderRulesText(text: string): void {
+  try {
+    if (text.trim()) {
+      window.localStorage.setItem(HEADER_RULES_STORAGE_KEY, text);
+    } else {
+      window.localStorage.removeItem(HEADER_RULES_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn('Save header rules error:', error);
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * 图片处理工具函数
+ * 在上传前使用Canvas（优先OffscreenCanvas）缩放、重新压缩和转换图片格式，
+ * 重新编码会去掉EXIF等元数据，绘制前按EXIF方向旋转图片
+ */
+
+import { t } from 'i18next';
+
+export type ImageOutputFormat = 'original' | 'image/jpeg' | 'image/webp' | 'image/png';
+
+export const IMAGE_OUTPUT_FORMATS: ImageOutputFormat[] = ['original', 'image/jpeg', 'image/webp', 'image/png'];
+
+export interface ImageProcessingOptions {
+  /** 最大宽度（像素），超过时等比缩小 */
+  maxWidth?: number;
+  /** 最大高度（像素），超过时等比缩小 */
+  maxHeight?: number;
+  /** 输出格式，original 表示保持原格式 */
+  format: ImageOutputFormat;
+  /** JPEG/WebP 压缩质量（1-100），为空时使用浏览器默认值 */
+  quality?: number;
+  /** 是否去掉EXIF等元数据 */
+  stripExif: boolean;
+}
+
+export interface ImageProcessingResult {
+  blob: Blob;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+// 可以处理的图片类型；GIF可能是动图，SVG是矢量图，这两类保持原样
+const PROCESSABLE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/bmp'];
+
+// 支持压缩质量参数的格式
+const LOSSY_TYPES = ['image/jpeg', 'image/webp'];
+
+// 当前TypeScript版本的DOM类型中缺少 OffscreenCanvas.convertToBlob
+type EncodableOffscreenCanvas = OffscreenCanvas & {
+  convertToBlob(options?: { type?: string; quality?: number }): Promise<Blob>;
+};
+
+// 当前TypeScript版本的DOM类型中 imageOrientation 缺少 'from-image'
+type OrientedImageBitmapOptions = Omit<ImageBitmapOptions, 'imageOrientation'> & {
+  imageOrientation?: ImageOrientation | 'from-image';
+};
+type CreateOrientedImageBitmap = (image: Blob, options?: OrientedImageBitmapOptions) => Promise<ImageBitmap>;
+
+/**
+ * 判断是否配置了任何图片处理选项
+ * @param options 图片处理选项
+ * @returns boolean
+ */
+export function isImageProcessingEnabled(options: ImageProcessingOptions): boolean {
+  return !!options.maxWidth || !!options.maxHeight || options.format !== 'original' || !!options.quality || options.stripExif;
+}
+
+/**
+ * 计算等比缩放后的尺寸，不放大图片
+ * @param width 原始宽度
+ * @param height 原始高度
+ * @param maxWidth 最大宽度
+ * @param maxHeight 最大高度
+ * @returns { width, height }
+ */
+function fitSize(width: number, height: number, maxWidth?: number, maxHeight?: number): { width: number; height: number } {
+  const scale = Math.min(1, maxWidth ? maxWidth / width : 1, maxHeight ? maxHeight / height : 1);
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * 将位图绘制到Canvas并编码为指定格式
+ * @param bitmap 图片位图
+ * @param width 输出宽度
+ * @param height 输出高度
+ * @param type 输出MIME类型
+ * @param quality 压缩质量（0-1）
+ * @returns Promise<Blob>
+ */
+async function encodeBitmap(bitmap: ImageBitmap, width: number, height: number, type: string, quality?: number): Promise<Blob> {
+  const canvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(width, height)
+    : Object.assign(document.createElement('canvas'), { width, height });
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!context) {
+    throw new Error(t('errorCanvasContext'));
+  }
+
+  // JPEG不支持透明通道，先填充白色背景
+  if (type === 'image/jpeg') {
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, width, height);
+
+  if (canvas instanceof HTMLCanvasElement) {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(result => (result ? resolve(result) : reject(new Error(t('errorImageEncode')))), type, quality);
+    });
+  }
+  return (canvas as EncodableOffscreenCanvas).convertToBlob({ type, quality });
+}
+
+/**
+ * 按选项处理图片
+ * 非图片、不支持处理的图片或处理后没有变化时返回null，调用方应继续使用原始文件
+ * @param blob 原始文件
+ * @param mimeType 原始文件的MIME类型
+ * @param options 图片处理选项
+ * @returns Promise<ImageProcessingResult | null>
+ */
+export async function processImage(
+  blob: Blob,
+  mimeType: string,
+  options: ImageProcessingOptions
+): Promise<ImageProcessingResult | null> {
+  const sourceType = mimeType.split(';')[0].trim().toLowerCase();
+  if (!isImageProcessingEnabled(options) || !PROCESSABLE_TYPES.includes(sourceType)) {
+    return null;
+  }
+
+  // from-image：按EXIF方向旋转，重新编码后方向信息随EXIF一起去掉
+  const bitmap = await (createImageBitmap as CreateOrientedImageBitmap)(blob, { imageOrientation: 'from-image' });
+  try {
+    const { width, height } = fitSize(bitmap.width, bitmap.height, options.maxWidth, options.maxHeight);
+    const resized = width !== bitmap.width || height !== bitmap.height;
+    // BMP没有对应的Canvas编码器，保持原格式时输出PNG
+    const originalType = sourceType === 'image/jpg' ? 'image/jpeg' : sourceType === 'image/bmp' ? 'image/png' : sourceType;
+    const targetType = options.format === 'original' ? originalType : options.format;
+    const quality = options.quality && LOSSY_TYPES.includes(targetType) ? options.quality / 100 : undefined;
+
+    const output = await encodeBitmap(bitmap, width, height, targetType, quality);
+    // 浏览器不支持目标格式时会回退为PNG，以实际输出类型为准
+    const outputType = output.type || targetType;
+
+    // 只是重新压缩且结果反而更大时，保留原始文件
+    if (!resized && !options.stripExif && outputType === sourceType && output.size >= blob.size) {
+      return null;
+    }
+    return { blob: output, mimeType: outputType, width, height };
+  } finally {
+    bitmap.close();
+  }
+}
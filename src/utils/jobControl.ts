@@ -0,0 +1,64 @@
+/**
+ * 任务控制工具函数
+ * 用于暂停、继续和取消正在运行的转换任务
+ */
+
+export interface JobControl {
+  /** 取消任务时触发，用于中止正在进行的下载 */
+  readonly signal: AbortSignal;
+  readonly paused: boolean;
+  readonly cancelled: boolean;
+  /** 暂停：正在处理的记录会继续完成，但不再开始处理新记录 */
+  pause(): void;
+  resume(): void;
+  /** 取消：中止正在进行的下载，并唤醒所有等待中的worker */
+  cancel(): void;
+  /** 如果任务已暂停，等待继续或取消 */
+  waitIfPaused(): Promise<void>;
+}
+
+/**
+ * 创建任务控制器
+ * @returns JobControl
+ */
+export function createJobControl(): JobControl {
+  const abortController = new AbortController();
+  let paused = false;
+  let waiters: (() => void)[] = [];
+
+  const releaseWaiters = () => {
+    const pending = waiters;
+    waiters = [];
+    pending.forEach(resolve => resolve());
+  };
+
+  return {
+    signal: abortController.signal,
+    get paused() {
+      return paused;
+    },
+    get cancelled() {
+      return abortController.signal.aborted;
+    },
+    pause() {
+      if (!abortController.signal.aborted) {
+        paused = true;
+      }
+    },
+    resume() {
+      paused = false;
+      releaseWaiters();
+    },
+    cancel() {
+      paused = false;
+      abortController.abort();
+      releaseWaiters();
+    },
+    waitIfPaused() {
+      if (!paused) {
+        return Promise.resolve();
+      }
+      return new Promise<void>(resolve => waiters.push(resolve));
+    },
+  };
+}
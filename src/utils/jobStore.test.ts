@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createJob,
+  createJobRecorder,
+  findUnfinishedJob,
+  getFailedRecordIds,
+  getJobKey,
+  getPendingRecordIds,
+  JobConfig,
+  loadJob,
+  saveJob,
+} from './jobStore';
+
+const CONFIG: JobConfig = {
+  tableId: 'tbl1',
+  viewId: 'vew1',
+  urlFieldId: 'fldUrl',
+  attachmentFieldId: 'fldFile',
+  overwrite: false,
+  append: false,
+  concurrency: 3,
+  requestsPerSecond: 5,
+};
+
+/**
+ * 创建内存中的localStorage
+ */
+function createStorage() {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index: number) => Array.from(items.keys())[index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    },
+  };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(1_000_000);
+  vi.stubGlobal('window', { localStorage: createStorage(), setTimeout, clearTimeout });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('getJobKey', () => {
+  it('separates reverse jobs and jobs with extra mappings', () => {
+    const keys = [
+      getJobKey(CONFIG),
+      getJobKey({ ...CONFIG, mode: 'attachmentToUrl' }),
+      getJobKey({ ...CONFIG, extraMappings: [{ urlFieldId: 'fldUrl2', attachmentFieldId: 'fldFile2', overwrite: false }] }),
+    ];
+
+    expect(keys[0]).toBe('url2file:job:tbl1:vew1:fldUrl:fldFile');
+    expect(new Set(keys).size).toBe(3);
+  });
+});
+
+describe('resuming and retrying jobs', () => {
+  it('resumes with the records that have no result yet, in the original order', () => {
+    const job = createJob(CONFIG, ['rec1', 'rec2', 'rec3', 'rec4']);
+    const recorder = createJobRecorder(job);
+    recorder.record('rec3', 'success');
+    recorder.record('rec1', 'failed', 'boom');
+    recorder.flush();
+
+    const saved = loadJob(job.key);
+
+    expect(saved && getPendingRecordIds(saved)).toEqual(['rec2', 'rec4']);
+    expect(saved?.results.rec1).toMatchObject({ status: 'failed', error: 'boom' });
+  });
+
+  it('retries only failed records, not skipped ones', () => {
+    const job = createJob(CONFIG, ['rec1', 'rec2', 'rec3', 'rec4']);
+    const recorder = createJobRecorder(job);
+    recorder.record('rec1', 'failed');
+    recorder.record('rec2', 'skipped');
+    recorder.record('rec3', 'success');
+    recorder.record('rec4', 'failed');
+
+    expect(getFailedRecordIds(job)).toEqual(['rec1', 'rec4']);
+  });
+
+  it('finds the most recently updated job that still has pending records', () => {
+    const older = createJob(CONFIG, ['rec1', 'rec2']);
+    saveJob(older);
+    vi.setSystemTime(2_000_000);
+    const newer = createJob({ ...CONFIG, viewId: 'vew2' }, ['rec1', 'rec2']);
+    saveJob(newer);
+    vi.setSystemTime(3_000_000);
+    const done = createJob({ ...CONFIG, viewId: 'vew3' }, ['rec1']);
+    done.results.rec1 = { status: 'success', updatedAt: Date.now() };
+    saveJob(done);
+    const finished = createJob({ ...CONFIG, viewId: 'vew4' }, ['rec1']);
+    finished.finished = true;
+    saveJob(finished);
+
+    expect(findUnfinishedJob()?.key).toBe(newer.key);
+  });
+});
+
+describe('createJobRecorder', () => {
+  it('saves right away and then at most once per second', async () => {
+    const job = createJob(CONFIG, ['rec1', 'rec2', 'rec3']);
+    const recorder = createJobRecorder(job);
+
+    recorder.record('rec1', 'success');
+    expect(loadJob(job.key)?.results).toHaveProperty('rec1');
+
+    recorder.record('rec2', 'success');
+    recorder.record('rec3', 'success');
+    expect(Object.keys(loadJob(job.key)?.results || {})).toEqual(['rec1']);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(Object.keys(loadJob(job.key)?.results || {})).toEqual(['rec1', 'rec2', 'rec3']);
+  });
+});
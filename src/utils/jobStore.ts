@@ -0,0 +1,211 @@
+/**
+ * 任务状态持久化工具函数
+ * 将每条记录的处理结果保存到localStorage，用于中断后继续任务和重试失败记录
+ */
+
+import { FieldMapping } from './fieldMappings';
+import { FilePolicySettings } from './filePolicy';
+import { ImageOutputFormat } from './imageProcessing';
+import { RetrySettings } from './retry';
+
+const JOB_KEY_PREFIX = 'url2file:job:';
+
+// 两次写入localStorage之间的最小间隔，避免大批量处理时频繁序列化
+const SAVE_INTERVAL = 1000;
+
+export type RecordStatus = 'success' | 'failed' | 'skipped';
+
+/**
+ * - urlToAttachment: 下载URL字段中的链接并写入附件字段
+ * - attachmentToUrl: 将附件字段中文件的链接写入URL字段（反向模式）
+ */
+export type ConvertMode = 'urlToAttachment' | 'attachmentToUrl';
+
+export interface RecordResult {
+  status: RecordStatus;
+  /** 失败或跳过的原因 */
+  error?: string;
+  updatedAt: number;
+}
+
+export interface JobConfig extends FilePolicySettings, RetrySettings {
+  /** 未设置时为 urlToAttachment */
+  mode?: ConvertMode;
+  tableId: string;
+  viewId: string;
+  urlFieldId: string;
+  attachmentFieldId: string;
+  overwrite: boolean;
+  /** 主映射之外的「URL字段 → 附件字段」映射 */
+  extraMappings?: FieldMapping[];
+  append: boolean;
+  statusFieldId?: string;
+  errorFieldId?: string;
+  fileNameTemplate?: string;
+  imageMaxWidth?: number;
+  imageMaxHeight?: number;
+  imageFormat?: ImageOutputFormat;
+  imageQuality?: number;
+  stripExif?: boolean;
+  allowHtml?: boolean;
+  concurrency: number;
+  requestsPerSecond: number;
+}
+
+export interface JobState {
+  key: string;
+  config: JobConfig;
+  /** 任务开始时的完整记录ID列表（保持原始顺序） */
+  recordIds: string[];
+  results: Record<string, RecordResult>;
+  finished: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * 根据转换方向、数据表、视图和字段ID生成任务的存储键
+ * @param config 任务配置
+ * @returns string 存储键
+ */
+export function getJobKey(
+  config: Pick<JobConfig, 'mode' | 'tableId' | 'viewId' | 'urlFieldId' | 'attachmentFieldId' | 'extraMappings'>
+): string {
+  const { mode, tableId, viewId, urlFieldId, attachmentFieldId, extraMappings = [] } = config;
+  // 反向模式使用相同的字段，需要与正向任务区分
+  const modePrefix = mode === 'attachmentToUrl' ? 'reverse:' : '';
+  // 只有一组映射时保持原有的存储键
+  const extraSuffix = extraMappings.map(mapping => `+${mapping.urlFieldId}:${mapping.attachmentFieldId}`).join('');
+  return `${JOB_KEY_PREFIX}${modePrefix}${tableId}:${viewId}:${urlFieldId}:${attachmentFieldId}${extraSuffix}`;
+}
+
+/**
+ * 创建新的任务状态
+ * @param config 任务配置
+ * @param recordIds 需要处理的记录ID列表
+ * @returns JobState
+ */
+export function createJob(config: JobConfig, recordIds: string[]): JobState {
+  const now = Date.now();
+  return {
+    key: getJobKey(config),
+    config,
+    recordIds,
+    results: {},
+    finished: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * 读取已保存的任务状态
+ * @param key 存储键
+ * @returns JobState | null
+ */
+export function loadJob(key: string): JobState | null {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as JobState) : null;
+  } catch (error) {
+    console.warn('Load job error:', error);
+    return null;
+  }
+}
+
+/**
+ * 保存任务状态
+ * @param job 任务状态
+ */
+export function saveJob(job: JobState): void {
+  try {
+    job.updatedAt = Date.now();
+    window.localStorage.setItem(job.key, JSON.stringify(job));
+  } catch (error) {
+    // localStorage可能已满或不可用，不影响转换流程
+    console.warn('Save job error:', error);
+  }
+}
+
+/**
+ * 删除已保存的任务状态
+ * @param key 存储键
+ */
+export function removeJob(key: string): void {
+  try {
+    window.localStorage.removeItem(key);
+  } catch (error) {
+    console.warn('Remove job error:', error);
+  }
+}
+
+/**
+ * 查找最近一次未完成的任务
+ * @returns JobState | null
+ */
+export function findUnfinishedJob(): JobState | null {
+  let latest: JobState | null = null;
+  try {
+    for (let i = 0; i < window.localStorage.length; i++) {
+      const key = window.localStorage.key(i);
+      if (!key || !key.startsWith(JOB_KEY_PREFIX)) continue;
+      const job = loadJob(key);
+      if (job && !job.finished && getPendingRecordIds(job).length > 0
+        && (!latest || job.updatedAt > latest.updatedAt)) {
+        latest = job;
+      }
+    }
+  } catch (error) {
+    console.warn('Find unfinished job error:', error);
+  }
+  return latest;
+}
+
+/**
+ * 获取尚未处理的记录ID
+ * @param job 任务状态
+ * @returns string[]
+ */
+export function getPendingRecordIds(job: JobState): string[] {
+  return job.recordIds.filter(id => !job.results[id]);
+}
+
+/**
+ * 获取处理失败的记录ID
+ * @param job 任务状态
+ * @returns string[]
+ */
+export function getFailedRecordIds(job: JobState): string[] {
+  return job.recordIds.filter(id => job.results[id]?.status === 'failed');
+}
+
+/**
+ * 创建任务结果记录器，记录每条记录的结果并节流写入localStorage
+ * @param job 任务状态
+ * @returns 记录函数和立即写入函数
+ */
+export function createJobRecorder(job: JobState) {
+  let lastSavedAt = 0;
+  let timer: number | undefined;
+
+  const flush = () => {
+    if (timer !== undefined) {
+      window.clearTimeout(timer);
+      timer = undefined;
+    }
+    lastSavedAt = Date.now();
+    saveJob(job);
+  };
+
+  const record = (recordId: string, status: RecordStatus, error?: string) => {
+    job.results[recordId] = { status, error, updatedAt: Date.now() };
+    const elapsed = Date.now() - lastSavedAt;
+    if (elapsed >= SAVE_INTERVAL) {
+      flush();
+    } else if (timer === undefined) {
+      timer = window.setTimeout(flush, SAVE_INTERVAL - elapsed);
+    }
+  };
+
+  return { record, flush };
+}
@@ -0,0 +1,109 @@
+import i18next, { t } from 'i18next';
+import { beforeAll, describe, expect, it } from 'vitest';
+import en from '../locales/en.json';
+import {
+  appendLogs,
+  clampMaxLogEntries,
+  DEFAULT_MAX_LOG_ENTRIES,
+  EMPTY_LOG_BUFFER,
+  filterLogs,
+  groupLogsByRecord,
+  LogEntry,
+  LogLevel,
+  MAX_MAX_LOG_ENTRIES,
+  MIN_MAX_LOG_ENTRIES,
+  serializeLogData,
+  toCsv,
+} from './logStore';
+
+/**
+ * 创建日志
+ * @param id 日志ID
+ * @param level 级别
+ * @param recordId 所属记录
+ */
+function createEntry(id: number, level: LogLevel = 'info', recordId?: string): LogEntry {
+  return { id, timestamp: Date.UTC(2024, 0, 1), level, message: `message ${id}`, recordId };
+}
+
+beforeAll(async () => {
+  await i18next.init({ lng: 'en', resources: { en: { translation: en } } });
+});
+
+describe('appendLogs', () => {
+  it('drops the oldest entries beyond the cap and counts them', () => {
+    const first = appendLogs(EMPTY_LOG_BUFFER, [1, 2, 3].map(id => createEntry(id)), 4);
+    const second = appendLogs(first, [4, 5, 6].map(id => createEntry(id)), 4);
+
+    expect(second.entries.map(entry => entry.id)).toEqual([3, 4, 5, 6]);
+    expect(second.dropped).toBe(2);
+  });
+
+  it('keeps only the newest entries when one batch exceeds the cap', () => {
+    const buffer = appendLogs(EMPTY_LOG_BUFFER, [1, 2, 3, 4, 5].map(id => createEntry(id)), 2);
+
+    expect(buffer).toEqual({ entries: [createEntry(4), createEntry(5)], dropped: 3 });
+  });
+});
+
+describe('clampMaxLogEntries', () => {
+  it.each([
+    [50, MIN_MAX_LOG_ENTRIES],
+    [1234.7, 1234],
+    [10_000_000, MAX_MAX_LOG_ENTRIES],
+    [Number.NaN, DEFAULT_MAX_LOG_ENTRIES],
+  ])('limits %s to %s', (value, expected) => {
+    expect(clampMaxLogEntries(value)).toBe(expected);
+  });
+});
+
+describe('serializeLogData', () => {
+  it('truncates long data and notes the original length', () => {
+    const text = serializeLogData('x'.repeat(30), 10);
+
+    expect(text).toBe(`${'x'.repeat(10)}${t('logDataTruncated', { length: 30 })}`);
+  });
+
+  it('serializes errors and objects, including circular ones', () => {
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    expect(serializeLogData(new TypeError('bad'))).toBe('TypeError: bad');
+    expect(serializeLogData({ a: 1 })).toBe('{\n  "a": 1\n}');
+    expect(serializeLogData(circular)).toBe('[object Object]');
+    expect(serializeLogData(undefined)).toBeUndefined();
+  });
+});
+
+describe('filterLogs and groupLogsByRecord', () => {
+  const entries = [
+    createEntry(1, 'info'),
+    createEntry(2, 'info', 'recA1'),
+    createEntry(3, 'error', 'recB'),
+    createEntry(4, 'warn', 'recA1'),
+  ];
+
+  it('filters by level and by part of the record ID', () => {
+    expect(filterLogs(entries, { levels: ['warn', 'error'], recordId: '' }).map(entry => entry.id)).toEqual([3, 4]);
+    expect(filterLogs(entries, { levels: [], recordId: ' recA ' }).map(entry => entry.id)).toEqual([2, 4]);
+  });
+
+  it('groups by record in order of appearance with the most severe level', () => {
+    expect(groupLogsByRecord(entries).map(({ recordId, level, entries: group }) => [recordId, level, group.length])).toEqual([
+      ['', 'info', 1],
+      ['recA1', 'warn', 2],
+      ['recB', 'error', 1],
+    ]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes cells with commas, quotes or line breaks', () => {
+    const entry = { ...createEntry(1, 'warn', 'rec1'), message: 'a, "b"', data: 'line 1\nline 2' };
+
+    expect(toCsv([entry]).split('\r\n')).toEqual([
+      'time,level,recordId,message,data',
+      '2024-01-01T00:00:00.000Z,warn,rec1,"a, ""b""","line 1\nline 2"',
+    ]);
+  });
+});
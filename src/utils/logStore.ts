@@ -0,0 +1,233 @@
+/**
+ * 日志工具函数
+ * 日志只保留最近的若干条，附带的数据在写入时序列化并截断，避免大批量处理时占用过多内存；
+ * 支持按级别和记录ID过滤、按记录分组，以及导出为 JSON Lines 和 CSV
+ */
+
+import { t } from 'i18next';
+
+export type LogLevel = 'info' | 'warn' | 'error' | 'success';
+
+export const LOG_LEVELS: LogLevel[] = ['info', 'success', 'warn', 'error'];
+
+export interface LogEntry {
+  id: number;
+  timestamp: number;
+  level: LogLevel;
+  message: string;
+  /** 序列化后的附带数据，超过长度上限时截断 */
+  data?: string;
+  /** 日志所属的记录 */
+  recordId?: string;
+}
+
+export interface LogBuffer {
+  entries: LogEntry[];
+  /** 超过条数上限后丢弃的较早日志条数 */
+  dropped: number;
+}
+
+export interface LogFilter {
+  /** 只显示这些级别，为空时显示所有级别 */
+  levels: LogLevel[];
+  /** 记录ID，包含该文本的记录的日志才显示 */
+  recordId: string;
+}
+
+export interface RecordLogGroup {
+  /** 不属于任何记录的日志（任务开始、汇总等）为空字符串 */
+  recordId: string;
+  entries: LogEntry[];
+  /** 组内最严重的级别 */
+  level: LogLevel;
+}
+
+export const EMPTY_LOG_BUFFER: LogBuffer = { entries: [], dropped: 0 };
+
+// 默认保留的日志条数
+export const DEFAULT_MAX_LOG_ENTRIES = 5000;
+// 允许设置的日志条数范围
+export const MIN_MAX_LOG_ENTRIES = 100;
+export const MAX_MAX_LOG_ENTRIES = 100000;
+// 单条日志附带数据的最大长度（字符）
+export const MAX_LOG_DATA_LENGTH = 2000;
+
+const MAX_LOG_ENTRIES_STORAGE_KEY = 'url2file:logMaxEntries';
+
+// 级别的严重程度，分组时取最严重的级别
+const LEVEL_SEVERITY: Record<LogLevel, number> = { info: 0, success: 1, warn: 2, error: 3 };
+
+/**
+ * 将日志附带的数据序列化为文本并截断
+ * @param data 附带数据
+ * @param maxLength 最大长度
+ * @returns string | undefined
+ */
+export function serializeLogData(data: any, maxLength: number = MAX_LOG_DATA_LENGTH): string | undefined {
+  if (data === undefined) {
+    return undefined;
+  }
+  let text: string;
+  if (data instanceof Error) {
+    text = `${data.name}: ${data.message}`;
+  } else if (typeof data === 'object' && data !== null) {
+    try {
+      text = JSON.stringify(data, null, 2);
+    } catch (error) {
+      text = String(data);
+    }
+  } else {
+    text = String(data);
+  }
+  return text.length > maxLength ? `${text.slice(0, maxLength)}${t('logDataTruncated', { length: text.length })}` : text;
+}
+
+/**
+ * 追加日志，超过条数上限时丢弃最早的日志
+ * @param buffer 当前日志
+ * @param entries 新日志
+ * @param maxEntries 条数上限
+ * @returns LogBuffer 新的日志对象
+ */
+export function appendLogs(buffer: LogBuffer, entries: LogEntry[], maxEntries: number): LogBuffer {
+  const combined = buffer.entries.concat(entries);
+  const overflow = Math.max(0, combined.length - maxEntries);
+  return {
+    entries: overflow > 0 ? combined.slice(overflow) : combined,
+    dropped: buffer.dropped + overflow,
+  };
+}
+
+/**
+ * 读取保存在本机的日志条数上限
+ * @returns number
+ */
+export function loadMaxLogEntries(): number {
+  try {
+    const value = Number(window.localStorage.getItem(MAX_LOG_ENTRIES_STORAGE_KEY));
+    return value ? clampMaxLogEntries(value) : DEFAULT_MAX_LOG_ENTRIES;
+  } catch (error) {
+    console.warn('Load log limit error:', error);
+    return DEFAULT_MAX_LOG_ENTRIES;
+  }
+}
+
+/**
+ * 保存日志条数上限到本机
+ * @param maxEntries 条数上限
+ */
+export function saveMaxLogEntries(maxEntries: number): void {
+  try {
+    window.localStorage.setItem(MAX_LOG_ENTRIES_STORAGE_KEY, String(clampMaxLogEntries(maxEntries)));
+  } catch (error) {
+    console.warn('Save log limit error:', error);
+  }
+}
+
+/**
+ * 将日志条数上限限制在允许的范围内
+ * @param value 输入值
+ * @returns number
+ */
+export function clampMaxLogEntries(value: number): number {
+  if (!Number.isFinite(value)) {
+    return DEFAULT_MAX_LOG_ENTRIES;
+  }
+  return Math.min(MAX_MAX_LOG_ENTRIES, Math.max(MIN_MAX_LOG_ENTRIES, Math.floor(value)));
+}
+
+/**
+ * 按级别和记录ID过滤日志
+ * @param entries 日志
+ * @param filter 过滤条件
+ * @returns LogEntry[]
+ */
+export function filterLogs(entries: LogEntry[], filter: LogFilter): LogEntry[] {
+  const recordId = filter.recordId.trim();
+  if (filter.levels.length === 0 && !recordId) {
+    return entries;
+  }
+  return entries.filter(entry =>
+    (filter.levels.length === 0 || filter.levels.includes(entry.level))
+    && (!recordId || (entry.recordId ?? '').includes(recordId))
+  );
+}
+
+/**
+ * 按记录分组，组的顺序为每条记录第一条日志出现的顺序
+ * @param entries 日志
+ * @returns RecordLogGroup[]
+ */
+export function groupLogsByRecord(entries: LogEntry[]): RecordLogGroup[] {
+  const groups = new Map<string, RecordLogGroup>();
+  for (const entry of entries) {
+    const recordId = entry.recordId ?? '';
+    let group = groups.get(recordId);
+    if (!group) {
+      group = { recordId, entries: [], level: 'info' };
+      groups.set(recordId, group);
+    }
+    group.entries.push(entry);
+    if (LEVEL_SEVERITY[entry.level] > LEVEL_SEVERITY[group.level]) {
+      group.level = entry.level;
+    }
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * 导出为 JSON Lines，每行一条日志
+ * @param entries 日志
+ * @returns string
+ */
+export function toJsonLines(entries: LogEntry[]): string {
+  return entries
+    .map(({ timestamp, level, recordId, message, data }) => JSON.stringify({
+      time: new Date(timestamp).toISOString(),
+      level,
+      recordId: recordId ?? null,
+      message,
+      ...(data !== undefined ? { data } : {}),
+    }))
+    .join('\n');
+}
+
+/**
+ * 转义CSV单元格
+ * @param value 单元格内容
+ * @returns string
+ */
+function escapeCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * 导出为CSV，第一行为表头
+ * @param entries 日志
+ * @returns string
+ */
+export function toCsv(entries: LogEntry[]): string {
+  const rows = entries.map(({ timestamp, level, recordId, message, data }) =>
+    [new Date(timestamp).toISOString(), level, recordId ?? '', message, data ?? ''].map(escapeCsvCell).join(',')
+  );
+  return ['time,level,recordId,message,data', ...rows].join('\r\n');
+}
+
+/**
+ * 在浏览器中下载文本文件
+ * @param fileName 文件名
+ * @param content 文件内容
+ * @param mimeType MIME类型
+ */
+export function downloadTextFile(fileName: string, content: string, mimeType: string): void {
+  // CSV加上BOM，Excel才能正确识别中文
+  const blob = new Blob([mimeType === 'text/csv' ? '\ufeff' : '', content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,89 @@
+import { FieldType, IFieldMeta } from '@lark-base-open/js-sdk';
+import { describe, expect, it } from 'vitest';
+import { checkPresetFields, createPreset, getPresetFieldIds, removeDeletedFields } from './presets';
+
+/**
+ * 创建字段信息
+ * @param id 字段ID
+ * @param name 字段名
+ */
+function field(id: string, name: string): IFieldMeta {
+  return { id, name, type: FieldType.Text } as IFieldMeta;
+}
+
+const FIELDS = [field('fldUrl', 'URL'), field('fldFile', 'Files'), field('fldSku', 'SKU'), field('fldUrl2', 'URL 2')];
+
+const VALUES = {
+  tableId: 'tbl1',
+  urlFieldId: 'fldUrl',
+  attachmentFieldId: 'fldFile',
+  statusFieldId: undefined,
+  extraMappings: [{ urlFieldId: 'fldUrl2', attachmentFieldId: 'fldFile', overwrite: false }],
+  fileNameTemplate: '{{SKU}}_{{Missing}}_{{index}}',
+  authCode: 'secret',
+  headerRules: 'a.com Authorization: x',
+  recordIdsText: 'rec1',
+};
+
+describe('createPreset', () => {
+  it('leaves out secrets and pasted record IDs', () => {
+    const preset = createPreset(' Daily ', VALUES, FIELDS);
+
+    expect(preset.name).toBe('Daily');
+    expect(Object.keys(preset.values)).toEqual(['tableId', 'urlFieldId', 'attachmentFieldId', 'extraMappings', 'fileNameTemplate']);
+  });
+
+  it('records the selected fields and the fields named in the file name template', () => {
+    const preset = createPreset('Daily', VALUES, FIELDS);
+
+    expect(getPresetFieldIds(preset.values)).toEqual(['fldUrl', 'fldFile', 'fldUrl2']);
+    expect(preset.fields).toEqual([
+      { id: 'fldUrl', name: 'URL' },
+      { id: 'fldFile', name: 'Files' },
+      { id: 'fldUrl2', name: 'URL 2' },
+    ]);
+    expect(preset.templateFields).toEqual([{ id: 'fldSku', name: 'SKU' }]);
+  });
+});
+
+describe('checkPresetFields', () => {
+  const preset = createPreset('Daily', VALUES, FIELDS);
+
+  it('reports nothing when the fields are unchanged', () => {
+    expect(checkPresetFields(preset, FIELDS)).toEqual([]);
+  });
+
+  it('reports deleted and renamed fields, including template fields', () => {
+    const current = [field('fldUrl', 'Link'), field('fldFile', 'Files'), field('fldSku', 'Item code')];
+
+    expect(checkPresetFields(preset, current)).toEqual([
+      { kind: 'renamed', field: { id: 'fldUrl', name: 'URL' }, currentName: 'Link' },
+      { kind: 'deleted', field: { id: 'fldUrl2', name: 'URL 2' } },
+      { kind: 'renamed', field: { id: 'fldSku', name: 'SKU' }, currentName: 'Item code' },
+    ]);
+  });
+
+  it('reports a field used both as a mapping and in the template only once', () => {
+    const templated = createPreset('Daily', { ...VALUES, fileNameTemplate: '{{URL}}' }, FIELDS);
+
+    expect(checkPresetFields(templated, FIELDS.filter(meta => meta.id !== 'fldUrl'))).toEqual([
+      { kind: 'deleted', field: { id: 'fldUrl', name: 'URL' } },
+    ]);
+  });
+});
+
+describe('removeDeletedFields', () => {
+  it('clears deleted fields, including those in extra mappings', () => {
+    const values = removeDeletedFields(VALUES, ['fldFile']);
+
+    expect(values).toMatchObject({
+      urlFieldId: 'fldUrl',
+      attachmentFieldId: undefined,
+      extraMappings: [{ urlFieldId: 'fldUrl2', attachmentFieldId: undefined, overwrite: false }],
+    });
+  });
+
+  it('returns the same values when nothing was deleted', () => {
+    expect(removeDeletedFields(VALUES, [])).toBe(VALUES);
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * 配置预设工具函数
+ * 将完整的表单配置按名称保存为预设，通过插件的持久化存储在同一多维表格的所有协作者之间共享，
+ * 存储不可用时退回到本机的localStorage；加载前检查预设引用的字段是否已被删除或重命名
+ */
+
+import { bitable, IFieldMeta } from '@lark-base-open/js-sdk';
+import { FieldMapping } from './fieldMappings';
+import { getTemplateFieldNames } from './fileNameTemplate';
+
+const PRESETS_STORAGE_KEY = 'url2file:presets';
+
+// 预设中引用字段ID的表单项（多组映射中的字段另外处理）
+const PRESET_FIELD_KEYS = ['urlFieldId', 'attachmentFieldId', 'statusFieldId', 'errorFieldId'];
+
+// 不保存到预设中的表单项：预设会共享给所有协作者，授权码和请求头规则可能包含密钥；粘贴的记录ID只对当次任务有意义
+const PRESET_EXCLUDED_KEYS = ['authCode', 'headerRules', 'recordIdsText'];
+
+/**
+ * - base: 插件的持久化存储，同一多维表格的所有协作者共享
+ * - local: 本机的localStorage，只有当前浏览器可见
+ */
+export type PresetStorage = 'base' | 'local';
+
+export interface PresetFieldRef {
+  id: string;
+  /** 保存预设时的字段名 */
+  name: string;
+}
+
+export interface ConfigPreset {
+  id: string;
+  name: string;
+  tableId: string;
+  /** 保存时的表单配置 */
+  values: Record<string, any>;
+  /** 配置中引用的字段，用于检测字段被删除或重命名 */
+  fields: PresetFieldRef[];
+  /** 文件名模板中按名称引用的字段（保存时的字段ID和名称） */
+  templateFields: PresetFieldRef[];
+  updatedAt: number;
+}
+
+export interface PresetList {
+  presets: ConfigPreset[];
+  storage: PresetStorage;
+}
+
+/**
+ * - deleted: 字段已被删除，加载时不填入表单
+ * - renamed: 字段已被重命名，字段ID不变，仍然可以使用；文件名模板按名称引用字段，需要修改模板
+ */
+export interface PresetFieldIssue {
+  kind: 'deleted' | 'renamed';
+  field: PresetFieldRef;
+  /** 字段当前的名称（重命名时） */
+  currentName?: string;
+}
+
+/**
+ * 获取localStorage中保存预设的键，不同多维表格的预设分开保存
+ * @returns Promise<string>
+ */
+async function getLocalStorageKey(): Promise<string> {
+  try {
+    const { baseId } = await bitable.base.getSelection();
+    return `${PRESETS_STORAGE_KEY}:${baseId || 'default'}`;
+  } catch (error) {
+    return `${PRESETS_STORAGE_KEY}:default`;
+  }
+}
+
+/**
+ * 过滤掉格式不正确的预设
+ * @param value 存储中读取的值
+ * @returns ConfigPreset[]
+ */
+function normalizePresets(value: unknown): ConfigPreset[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter((preset): preset is ConfigPreset =>
+    !!preset && typeof preset.id === 'string' && typeof preset.name === 'string' && typeof preset.tableId === 'string'
+  ).map(preset => ({
+    ...preset,
+    values: preset.values || {},
+    fields: preset.fields || [],
+    templateFields: preset.templateFields || [],
+  }));
+}
+
+/**
+ * 读取预设，优先使用插件的持久化存储
+ * @returns Promise<PresetList>
+ */
+export async function loadPresets(): Promise<PresetList> {
+  try {
+    const data = await bitable.bridge.getData<ConfigPreset[]>(PRESETS_STORAGE_KEY);
+    return { presets: normalizePresets(data), storage: 'base' };
+  } catch (error) {
+    console.warn('Load presets from base error:', error);
+  }
+  try {
+    const raw = window.localStorage.getItem(await getLocalStorageKey());
+    return { presets: normalizePresets(raw ? JSON.parse(raw) : []), storage: 'local' };
+  } catch (error) {
+    console.warn('Load presets error:', error);
+    return { presets: [], storage: 'local' };
+  }
+}
+
+/**
+ * 保存所有预设，插件存储写入失败时保存到本机
+ * @param presets 预设列表
+ * @returns Promise<PresetStorage> 实际使用的存储
+ */
+async function savePresets(presets: ConfigPreset[]): Promise<PresetStorage> {
+  try {
+    if (await bitable.bridge.setData(PRESETS_STORAGE_KEY, presets)) {
+      return 'base';
+    }
+  } catch (error) {
+    console.warn('Save presets to base error:', error);
+  }
+  window.localStorage.setItem(await getLocalStorageKey(), JSON.stringify(presets));
+  return 'local';
+}
+
+/**
+ * 保存预设：同一数据表中已有同名预设或相同ID的预设时更新该预设，否则新增
+ * 保存前重新读取存储，避免覆盖其他协作者刚保存的预设
+ * @param preset 预设
+ * @returns Promise<PresetList> 保存后的预设列表
+ */
+export async function upsertPreset(preset: ConfigPreset): Promise<PresetList> {
+  const { presets } = await loadPresets();
+  const index = presets.findIndex(item =>
+    item.id === preset.id || (item.tableId === preset.tableId && item.name === preset.name)
+  );
+  const next = index >= 0
+    ? presets.map((item, itemIndex) => (itemIndex === index ? { ...preset, id: item.id } : item))
+    : [...presets, preset];
+  return { presets: next, storage: await savePresets(next) };
+}
+
+/**
+ * 删除预设
+ * @param id 预设ID
+ * @returns Promise<PresetList> 删除后的预设列表
+ */
+export async function deletePreset(id: string): Promise<PresetList> {
+  const { presets } = await loadPresets();
+  const next = presets.filter(preset => preset.id !== id);
+  return { presets: next, storage: await savePresets(next) };
+}
+
+/**
+ * 获取配置中引用的所有字段ID（去重）
+ * @param values 表单配置
+ * @returns string[]
+ */
+export function getPresetFieldIds(values: Record<string, any>): string[] {
+  const mappings: Partial<FieldMapping>[] = Array.isArray(values.extraMappings) ? values.extraMappings : [];
+  const ids = [
+    ...PRESET_FIELD_KEYS.map(key => values[key]),
+    ...mappings.flatMap(mapping => [mapping?.urlFieldId, mapping?.attachmentFieldId]),
+  ];
+  return Array.from(new Set(ids.filter((id): id is string => typeof id === 'string' && !!id)));
+}
+
+/**
+ * 根据当前表单配置创建预设
+ * @param name 预设名称
+ * @param values 表单配置
+ * @param fieldMetaList 数据表的字段列表，用于记录字段名
+ * @param id 更新已有预设时的ID
+ * @returns ConfigPreset
+ */
+export function createPreset(
+  name: string,
+  values: Record<string, any>,
+  fieldMetaList: IFieldMeta[],
+  id?: string
+): ConfigPreset {
+  const presetValues = Object.fromEntries(
+    Object.entries(values).filter(([key, value]) => !PRESET_EXCLUDED_KEYS.includes(key) && value !== undefined)
+  );
+  const template = typeof presetValues.fileNameTemplate === 'string' ? presetValues.fileNameTemplate : '';
+  return {
+    id: id || `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim(),
+    tableId: values.tableId,
+    values: presetValues,
+    fields: getPresetFieldIds(presetValues).map(fieldId => ({
+      id: fieldId,
+      name: fieldMetaList.find(field => field.id === fieldId)?.name || fieldId,
+    })),
+    // 模板中不存在的字段名不记录，转换时会提示找不到字段
+    templateFields: getTemplateFieldNames(template).flatMap(fieldName => {
+      const field = fieldMetaList.find(meta => meta.name === fieldName);
+      return field ? [{ id: field.id, name: field.name }] : [];
+    }),
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * 检查预设引用的字段（包括文件名模板引用的字段）是否已被删除或重命名
+ * @param preset 预设
+ * @param fieldMetaList 数据表当前的字段列表
+ * @returns PresetFieldIssue[]
+ */
+export function checkPresetFields(preset: ConfigPreset, fieldMetaList: IFieldMeta[]): PresetFieldIssue[] {
+  const issues: PresetFieldIssue[] = [];
+  // 同一字段既被选择又被模板引用时只提示一次
+  const fields = [...preset.fields, ...preset.templateFields]
+    .filter((field, index, list) => list.findIndex(item => item.id === field.id) === index);
+  for (const field of fields) {
+    const current = fieldMetaList.find(meta => meta.id === field.id);
+    if (!current) {
+      issues.push({ kind: 'deleted', field });
+    } else if (current.name !== field.name) {
+      issues.push({ kind: 'renamed', field, currentName: current.name });
+    }
+  }
+  return issues;
+}
+
+/**
+ * 从配置中移除已被删除的字段，多组映射中的字段留空，以便用户重新选择
+ * @param values 表单配置
+ * @param deletedFieldIds 已被删除的字段ID
+ * @returns Record<string, any> 新的表单配置
+ */
+export function removeDeletedFields(values: Record<string, any>, deletedFieldIds: string[]): Record<string, any> {
+  if (deletedFieldIds.length === 0) {
+    return values;
+  }
+  const result: Record<string, any> = { ...values };
+  PRESET_FIELD_KEYS.forEach(key => {
+    if (deletedFieldIds.includes(result[key])) {
+      result[key] = undefined;
+    }
+  });
+  if (Array.isArray(result.extraMappings)) {
+    result.extraMappings = result.extraMappings.map((mapping: Partial<FieldMapping>) => ({
+      ...mapping,
+      urlFieldId: mapping?.urlFieldId && deletedFieldIds.includes(mapping.urlFieldId) ? undefined : mapping?.urlFieldId,
+      attachmentFieldId: mapping?.attachmentFieldId && deletedFieldIds.includes(mapping.attachmentFieldId)
+        ? undefined
+        : mapping?.attachmentFieldId,
+    }));
+  }
+  return result;
+}
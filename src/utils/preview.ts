@@ -0,0 +1,131 @@
+/**
+ * 预览工具函数
+ * 预览只提取URL、校验并探测文件的类型和大小，汇总每条记录计划执行的操作，不下载和写入任何内容
+ */
+
+import { t } from 'i18next';
+
+/**
+ * - add: 附件字段为空，写入新附件
+ * - overwrite: 覆盖已有附件
+ * - append: 追加到已有附件之后
+ * - skip: 跳过（URL为空、已有附件且不覆盖、文件都被过滤规则拒绝）
+ * - fail: 预计失败（URL无效、无法访问、不是文件等）
+ */
+export type PlannedAction = 'add' | 'overwrite' | 'append' | 'skip' | 'fail';
+
+export const PLANNED_ACTIONS: PlannedAction[] = ['add', 'overwrite', 'append', 'skip', 'fail'];
+
+// 计划操作对应的翻译键
+export const PLANNED_ACTION_LABEL_KEYS: Record<PlannedAction, string> = {
+  add: 'actionAdd',
+  overwrite: 'actionOverwrite',
+  append: 'actionAppend',
+  skip: 'actionSkip',
+  fail: 'actionFail',
+};
+
+export interface PreviewUrl {
+  url: string;
+  fileName?: string;
+  mimeType?: string | null;
+  /** 文件大小（字节），未探测或服务器未声明时为空 */
+  size?: number | null;
+  /** 预计的失败或被过滤原因 */
+  problem?: string;
+  /** 是否被过滤规则拒绝（拒绝的文件会跳过而不是失败） */
+  rejected?: boolean;
+}
+
+export interface PreviewRow {
+  /** 记录在本次预览中的序号（从1开始） */
+  index: number;
+  recordId: string;
+  /** 字段映射的序号（从0开始） */
+  mappingIndex: number;
+  action: PlannedAction;
+  urls: PreviewUrl[];
+  /** 已知大小的文件总大小（字节） */
+  estimatedSize: number;
+  /** 是否有文件的大小未知 */
+  sizeUnknown: boolean;
+  /** 跳过或失败的原因 */
+  reason?: string;
+}
+
+export interface PreviewTotals {
+  /** 预览的记录数 */
+  records: number;
+  actions: Record<PlannedAction, number>;
+  urls: number;
+  /** 预计失败或被拒绝的URL数 */
+  problemUrls: number;
+  /** 将要下载的文件的已知总大小（字节） */
+  estimatedSize: number;
+  /** 将要下载但大小未知的文件数 */
+  unknownSizeUrls: number;
+}
+
+/**
+ * 根据探测结果确定该映射计划执行的操作
+ * @param urls 探测后的URL列表
+ * @param hasExistingAttachments 附件字段是否已有附件
+ * @param overwrite 是否覆盖已有附件
+ * @returns { action, reason }
+ */
+export function planAction(
+  urls: PreviewUrl[],
+  hasExistingAttachments: boolean,
+  overwrite: boolean
+): { action: PlannedAction; reason?: string } {
+  const problems = urls.filter(({ problem }) => problem);
+  if (problems.length < urls.length) {
+    const action: PlannedAction = !hasExistingAttachments ? 'add' : overwrite ? 'overwrite' : 'append';
+    return { action, reason: problems.length > 0 ? t('reasonPartialFailureExpected', { urls: problems.map(({ url }) => url).join(', ') }) : undefined };
+  }
+  const reason = problems.map(({ problem }) => problem).join('; ');
+  // 与实际转换一致：所有文件都被过滤规则拒绝时跳过
+  return { action: problems.every(({ rejected }) => rejected) ? 'skip' : 'fail', reason };
+}
+
+/**
+ * 按记录序号和映射序号排序（并发预览时完成顺序不固定）
+ * @param rows 预览结果
+ * @returns PreviewRow[] 新数组
+ */
+export function sortPreviewRows(rows: PreviewRow[]): PreviewRow[] {
+  return [...rows].sort((a, b) => a.index - b.index || a.mappingIndex - b.mappingIndex);
+}
+
+/**
+ * 汇总预览结果
+ * @param rows 预览结果
+ * @returns PreviewTotals
+ */
+export function summarizePreview(rows: PreviewRow[]): PreviewTotals {
+  const actions = Object.fromEntries(PLANNED_ACTIONS.map(action => [action, 0])) as Record<PlannedAction, number>;
+  const totals: PreviewTotals = {
+    records: new Set(rows.map(({ recordId }) => recordId)).size,
+    actions,
+    urls: 0,
+    problemUrls: 0,
+    estimatedSize: 0,
+    unknownSizeUrls: 0,
+  };
+  for (const row of rows) {
+    actions[row.action]++;
+    totals.urls += row.urls.length;
+    totals.problemUrls += row.urls.filter(({ problem }) => problem).length;
+    // 只有会被下载的文件计入大小
+    if (row.action === 'skip' || row.action === 'fail') continue;
+    for (const { size, problem } of row.urls) {
+      if (problem) continue;
+      if (typeof size === 'number') {
+        totals.estimatedSize += size;
+      } else {
+        totals.unknownSizeUrls++;
+      }
+    }
+  }
+  return totals;
+}
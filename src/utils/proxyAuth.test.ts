@@ -0,0 +1,49 @@
+import { createHash, createHmac } from 'node:crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildProxyUrl } from './proxyAuth';
+import { HEADER_RULES_PROXY_HEADER } from './headerRules';
+import { FILE_POLICY_PROXY_HEADER } from './filePolicy';
+
+const URL_A = 'https://files.example.com/a.png?x=1&y=2';
+const NOW = 1_700_000_000;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW * 1000);
+  vi.stubGlobal('window', { location: { origin: 'https://plugin.example.com' } });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('buildProxyUrl', () => {
+  it('builds an unsigned URL without an auth code', async () => {
+    const proxyUrl = new URL(await buildProxyUrl(URL_A));
+
+    expect(proxyUrl.origin + proxyUrl.pathname).toBe('https://plugin.example.com/api/proxy');
+    expect(proxyUrl.searchParams.get('url')).toBe(URL_A);
+    expect(proxyUrl.searchParams.has('sig')).toBe(false);
+  });
+
+  it('signs the expiry, URL and proxy header digest the same way as the proxy', async () => {
+    const headers = { [HEADER_RULES_PROXY_HEADER]: 'cnVsZXM=', [FILE_POLICY_PROXY_HEADER]: 'cG9saWN5' };
+
+    const proxyUrl = new URL(await buildProxyUrl(URL_A, ' secret-a ', headers));
+
+    const expires = proxyUrl.searchParams.get('expires');
+    expect(expires).toBe(String(NOW + 5 * 60));
+    const digest = createHash('sha256').update('cnVsZXM=\ncG9saWN5').digest('hex');
+    const expected = createHmac('sha256', 'secret-a').update(`${expires}\n${URL_A}\n${digest}`).digest('hex');
+    expect(proxyUrl.searchParams.get('sig')).toBe(expected);
+  });
+
+  it('produces different signatures for different proxy headers', async () => {
+    const sign = async (policy: string) => new URL(
+      await buildProxyUrl(URL_A, 'secret-a', { [FILE_POLICY_PROXY_HEADER]: policy })
+    ).searchParams.get('sig');
+
+    expect(await sign('strict')).not.toBe(await sign('loose'));
+  });
+});
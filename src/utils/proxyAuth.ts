@@ -0,0 +1,71 @@
+/**
+ * 代理请求签名工具函数
+ * 使用授权码对目标URL、过期时间和请求头规则、文件过滤策略的摘要做HMAC-SHA256签名，代理校验签名后才会转发请求
+ */
+
+import { HEADER_RULES_PROXY_HEADER } from './headerRules';
+import { FILE_POLICY_PROXY_HEADER } from './filePolicy';
+
+// 签名有效期（秒），需小于代理允许的最大有效期
+const SIGNATURE_TTL = 5 * 60;
+
+/**
+ * 转换为十六进制字符串
+ * @param buffer 字节
+ * @returns string
+ */
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * 计算HMAC-SHA256签名
+ * @param secret 签名密钥
+ * @param message 待签名内容
+ * @returns Promise<string> 十六进制签名
+ */
+async function hmacSha256(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return toHex(signature);
+}
+
+/**
+ * 计算请求头规则和文件过滤策略请求头的SHA-256摘要，防止签名后的链接被配上其他请求头重放
+ * @param proxyHeaders 发送给代理的请求头
+ * @returns Promise<string> 十六进制摘要
+ */
+async function digestProxyHeaders(proxyHeaders: Record<string, string>): Promise<string> {
+  const content = `${proxyHeaders[HEADER_RULES_PROXY_HEADER]?.trim() || ''}\n${proxyHeaders[FILE_POLICY_PROXY_HEADER]?.trim() || ''}`;
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content)));
+}
+
+/**
+ * 构建代理请求URL，提供授权码时附带签名和过期时间
+ * 签名内容为 `${expires}\n${url}\n${请求头摘要}`，与 api/_lib/proxyAuth.js 保持一致
+ * @param url 目标文件URL
+ * @param authCode 授权码（签名密钥），为空时不签名
+ * @param proxyHeaders 发送给代理的请求头，其中的请求头规则和文件过滤策略参与签名
+ * @returns Promise<string> 代理URL
+ */
+export async function buildProxyUrl(
+  url: string,
+  authCode?: string,
+  proxyHeaders: Record<string, string> = {}
+): Promise<string> {
+  const params = new URLSearchParams({ url });
+  const secret = authCode?.trim();
+  if (secret && typeof crypto !== 'undefined' && crypto.subtle) {
+    const expires = Math.floor(Date.now() / 1000) + SIGNATURE_TTL;
+    params.set('expires', String(expires));
+    params.set('sig', await hmacSha256(secret, `${expires}\n${url}\n${await digestProxyHeaders(proxyHeaders)}`));
+  }
+  return `${window.location.origin}/api/proxy?${params.toString()}`;
+}
@@ -0,0 +1,122 @@
+import i18next, { t } from 'i18next';
+import { IOpenSegmentType, ITable } from '@lark-base-open/js-sdk';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import en from '../locales/en.json';
+import { applyRecordLimit, loadUrlSnapshot, parseRecordIdList, resolveRecordScope, RecordScopeOptions } from './recordScope';
+
+const RECORD_IDS = ['rec1', 'rec2', 'rec3', 'rec4', 'rec5'];
+
+/**
+ * 创建只实现范围筛选所需接口的数据表
+ * @param urls 记录ID -> URL字段的文本，视图中的记录按此顺序排列
+ * @param hidden 不在视图中的记录ID
+ */
+function createScopeTable(urls: Record<string, string>, hidden: string[] = []) {
+  const table = {
+    id: 'tbl1',
+    getRecordIdList: async () => [...Object.keys(urls), ...hidden],
+    getViewById: async () => ({ getVisibleRecordIdList: async () => Object.keys(urls) }),
+    getCellValue: async (_fieldId: string, recordId: string) => (
+      urls[recordId] ? [{ type: IOpenSegmentType.Url, text: urls[recordId], link: urls[recordId] }] : null
+    ),
+  };
+  return table as unknown as ITable;
+}
+
+/**
+ * 创建内存中的localStorage
+ */
+function createStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+  };
+}
+
+const OPTIONS: RecordScopeOptions = { scope: 'view', viewId: 'vew1', urlFieldId: 'fldUrl', attachmentFieldId: 'fldFile' };
+
+beforeAll(async () => {
+  await i18next.init({ lng: 'en', resources: { en: { translation: en } } });
+});
+
+beforeEach(() => {
+  vi.stubGlobal('window', { localStorage: createStorage() });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('parseRecordIdList', () => {
+  it('splits pasted IDs and removes duplicates in order', () => {
+    expect(parseRecordIdList(' rec2, rec1；rec2\nrec3 ')).toEqual(['rec2', 'rec1', 'rec3']);
+  });
+});
+
+describe('applyRecordLimit', () => {
+  it('keeps the first N records', () => {
+    expect(applyRecordLimit(RECORD_IDS, 'first', 2)).toEqual(['rec1', 'rec2']);
+  });
+
+  it('keeps every record when there is no usable limit', () => {
+    expect(applyRecordLimit(RECORD_IDS, 'all', 2)).toBe(RECORD_IDS);
+    expect(applyRecordLimit(RECORD_IDS, 'first', 0)).toBe(RECORD_IDS);
+    expect(applyRecordLimit(RECORD_IDS, 'sample', 10)).toBe(RECORD_IDS);
+  });
+
+  it('samples N distinct records and keeps their original order', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.99);
+
+    expect(applyRecordLimit(RECORD_IDS, 'sample', 3)).toEqual(['rec1', 'rec2', 'rec5']);
+  });
+
+  it('always samples exactly N records', () => {
+    for (let i = 0; i < 20; i++) {
+      const sample = applyRecordLimit(RECORD_IDS, 'sample', 3);
+      expect(new Set(sample).size).toBe(3);
+      expect(sample).toEqual(RECORD_IDS.filter(id => sample.includes(id)));
+    }
+  });
+});
+
+describe('resolveRecordScope', () => {
+  it('returns only pasted or selected IDs that belong to the table', async () => {
+    const table = createScopeTable({ rec1: 'https://a.com/1.png' }, ['rec2']);
+    const onLog = vi.fn();
+
+    const recordIds = await resolveRecordScope(table, { ...OPTIONS, scope: 'recordIds', pastedRecordIds: ['rec2', 'recX', 'rec1'] }, onLog);
+
+    expect(recordIds).toEqual(['rec2', 'rec1']);
+    expect(onLog).toHaveBeenCalledWith('warn', t('logUnknownRecordIds', { ids: 'recX' }));
+  });
+
+  it('selects records whose URLs changed since they last succeeded', async () => {
+    const table = createScopeTable({
+      rec1: 'https://a.com/1.png',
+      rec2: 'https://a.com/2.png',
+      rec3: 'https://a.com/3-new.png',
+      rec4: '',
+    });
+    const snapshot = loadUrlSnapshot('tbl1', 'fldUrl', 'fldFile');
+    snapshot.update('rec1', ['https://a.com/1.png']);
+    snapshot.update('rec3', ['https://a.com/3-old.png']);
+    snapshot.flush();
+
+    const recordIds = await resolveRecordScope(table, { ...OPTIONS, scope: 'urlChanged' });
+
+    expect(recordIds).toEqual(['rec2', 'rec3']);
+  });
+
+  it('keeps URL snapshots separate for each URL and attachment field', async () => {
+    const table = createScopeTable({ rec1: 'https://a.com/1.png' });
+    const snapshot = loadUrlSnapshot('tbl1', 'fldUrl', 'fldOther');
+    snapshot.update('rec1', ['https://a.com/1.png']);
+    snapshot.flush();
+
+    expect(await resolveRecordScope(table, { ...OPTIONS, scope: 'urlChanged' })).toEqual(['rec1']);
+  });
+});
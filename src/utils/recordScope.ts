@@ -0,0 +1,177 @@
+/**
+ * 记录范围工具函数
+ * 根据选择的范围（视图、选中记录、整张表、条件或指定ID）确定需要处理的记录，
+ * 并支持只处理前N条或随机抽取N条用于试运行
+ */
+
+import { IOpenAttachment, ITable } from '@lark-base-open/js-sdk';
+import { t } from 'i18next';
+import { runWithConcurrency } from './concurrency';
+import { extractUrlsFromCellValue } from './urlUtils';
+
+const URL_SNAPSHOT_KEY_PREFIX = 'url2file:urls:';
+
+// 按条件筛选记录时读取单元格的并发数
+const CONDITION_READ_CONCURRENCY = 10;
+
+/**
+ * - view: 所选视图中的可见记录
+ * - selection: 通过记录选择框选中的记录，没有选择时为表格中的当前记录
+ * - table: 整张表的记录（不受视图筛选影响）
+ * - attachmentEmpty: 所选视图中附件字段为空的记录
+ * - urlChanged: 所选视图中URL自上次成功处理后发生变化（或从未处理过）的记录
+ * - recordIds: 手动粘贴的记录ID
+ */
+export type RecordScope = 'view' | 'selection' | 'table' | 'attachmentEmpty' | 'urlChanged' | 'recordIds';
+
+export const RECORD_SCOPES: RecordScope[] = ['view', 'selection', 'table', 'attachmentEmpty', 'urlChanged', 'recordIds'];
+
+export type RecordLimitMode = 'all' | 'first' | 'sample';
+
+export interface RecordScopeOptions {
+  scope: RecordScope;
+  viewId: string;
+  urlFieldId: string;
+  attachmentFieldId: string;
+  /** scope 为 selection 时使用 */
+  selectedRecordIds?: string[];
+  /** scope 为 recordIds 时使用 */
+  pastedRecordIds?: string[];
+}
+
+export interface UrlSnapshot {
+  /** 判断记录的URL是否与上次成功处理时不同 */
+  hasChanged(recordId: string, urls: string[]): boolean;
+  /** 记录成功处理时的URL */
+  update(recordId: string, urls: string[]): void;
+  /** 写入localStorage */
+  flush(): void;
+}
+
+/**
+ * 从粘贴的文本中解析记录ID（按空白、逗号或分号分隔，保持顺序去重）
+ * @param text 粘贴的文本
+ * @returns string[]
+ */
+export function parseRecordIdList(text: string | undefined): string[] {
+  const ids = (text || '').split(/[\s,，;；]+/).map(id => id.trim()).filter(Boolean);
+  return Array.from(new Set(ids));
+}
+
+/**
+ * 按上限截取记录：first 取前N条，sample 随机抽取N条（保持原有顺序）
+ * @param recordIds 记录ID列表
+ * @param mode 截取方式
+ * @param count 数量
+ * @returns string[]
+ */
+export function applyRecordLimit(recordIds: string[], mode: RecordLimitMode, count?: number): string[] {
+  if (mode === 'all' || !count || count <= 0 || count >= recordIds.length) {
+    return recordIds;
+  }
+  if (mode === 'first') {
+    return recordIds.slice(0, count);
+  }
+  // 部分Fisher-Yates洗牌选出N个下标，再按原顺序排列
+  const indexes = recordIds.map((_, index) => index);
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(Math.random() * (indexes.length - i));
+    [indexes[i], indexes[j]] = [indexes[j], indexes[i]];
+  }
+  return indexes.slice(0, count).sort((a, b) => a - b).map(index => recordIds[index]);
+}
+
+/**
+ * 读取URL快照，用于判断URL字段自上次运行后是否变化
+ * @param tableId 数据表ID
+ * @param urlFieldId URL字段ID
+ * @param attachmentFieldId 附件字段ID
+ * @returns UrlSnapshot
+ */
+export function loadUrlSnapshot(tableId: string, urlFieldId: string, attachmentFieldId: string): UrlSnapshot {
+  const key = `${URL_SNAPSHOT_KEY_PREFIX}${tableId}:${urlFieldId}:${attachmentFieldId}`;
+  let entries: Record<string, string> = {};
+  try {
+    entries = JSON.parse(window.localStorage.getItem(key) || '{}');
+  } catch (error) {
+    console.warn('Load url snapshot error:', error);
+  }
+  let dirty = false;
+
+  return {
+    hasChanged(recordId, urls) {
+      return entries[recordId] !== urls.join('\n');
+    },
+
+    update(recordId, urls) {
+      entries[recordId] = urls.join('\n');
+      dirty = true;
+    },
+
+    flush() {
+      if (!dirty) return;
+      try {
+        window.localStorage.setItem(key, JSON.stringify(entries));
+        dirty = false;
+      } catch (error) {
+        console.warn('Save url snapshot error:', error);
+      }
+    },
+  };
+}
+
+/**
+ * 根据范围获取需要处理的记录ID
+ * @param table 数据表实例
+ * @param options 范围选项
+ * @param onLog 可选的日志回调
+ * @returns Promise<string[]>
+ */
+export async function resolveRecordScope(
+  table: ITable,
+  options: RecordScopeOptions,
+  onLog?: (level: 'info' | 'warn', message: string) => void
+): Promise<string[]> {
+  const { scope, viewId, urlFieldId, attachmentFieldId } = options;
+  const log = onLog || (() => undefined);
+
+  if (scope === 'table') {
+    return table.getRecordIdList();
+  }
+
+  if (scope === 'selection' || scope === 'recordIds') {
+    const requested = (scope === 'selection' ? options.selectedRecordIds : options.pastedRecordIds) || [];
+    // 过滤掉不属于该数据表的记录ID
+    const existing = new Set(await table.getRecordIdList());
+    const unknown = requested.filter(id => !existing.has(id));
+    if (unknown.length > 0) {
+      log('warn', t('logUnknownRecordIds', { ids: unknown.join(', ') }));
+    }
+    return requested.filter(id => existing.has(id));
+  }
+
+  const view = await table.getViewById(viewId);
+  const visibleIds = (await view.getVisibleRecordIdList()).filter((id): id is string => !!id);
+  if (scope === 'view') {
+    return visibleIds;
+  }
+
+  // 条件范围：逐条读取单元格判断
+  log('info', t('logFilteringRecords', { count: visibleIds.length }));
+  const matched = new Set<string>();
+  const snapshot = scope === 'urlChanged' ? loadUrlSnapshot(table.id, urlFieldId, attachmentFieldId) : null;
+  await runWithConcurrency(visibleIds, CONDITION_READ_CONCURRENCY, async recordId => {
+    if (snapshot) {
+      const urls = extractUrlsFromCellValue(await table.getCellValue(urlFieldId, recordId));
+      if (urls.length > 0 && snapshot.hasChanged(recordId, urls)) {
+        matched.add(recordId);
+      }
+    } else {
+      const attachments = await table.getCellValue(attachmentFieldId, recordId) as IOpenAttachment[] | null;
+      if (!attachments || attachments.length === 0) {
+        matched.add(recordId);
+      }
+    }
+  });
+  return visibleIds.filter(id => matched.has(id));
+}
@@ -0,0 +1,129 @@
+import i18next, { t } from 'i18next';
+import { ITable } from '@lark-base-open/js-sdk';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import en from '../locales/en.json';
+import { createRecordWatcher } from './recordWatcher';
+
+type ModifyHandler = (event: { data: { recordId: string; fieldIds: string[] } }) => void;
+
+/**
+ * 创建只实现监听所需接口的数据表
+ * @param cells 记录ID -> URL字段的文本
+ */
+function createWatchedTable(cells: Record<string, string>) {
+  let modify: ModifyHandler = () => undefined;
+  const table = {
+    onRecordAdd: () => () => undefined,
+    onRecordDelete: () => () => undefined,
+    onRecordModify: (handler: ModifyHandler) => {
+      modify = handler;
+      return () => undefined;
+    },
+    getCellString: async (_fieldId: string, recordId: string) => {
+      if (!(recordId in cells)) {
+        throw new Error(`Record not found: ${recordId}`);
+      }
+      return cells[recordId];
+    },
+  };
+  const edit = (recordId: string) => modify({ data: { recordId, fieldIds: ['fldUrl'] } });
+  return { table: table as unknown as ITable, edit };
+}
+
+beforeAll(async () => {
+  await i18next.init({ lng: 'en', resources: { en: { translation: en } } });
+});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal('window', { setTimeout, clearTimeout });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('createRecordWatcher', () => {
+  it('does not process a record again until its URL changes', async () => {
+    const cells = { rec1: 'https://a.com/1.png' };
+    const { table, edit } = createWatchedTable(cells);
+    const onBatch = vi.fn(async (recordIds: string[]) => recordIds);
+    const watcher = createRecordWatcher({ table, urlFieldIds: ['fldUrl'], onBatch, debounceDelay: 100 });
+
+    edit('rec1');
+    await vi.advanceTimersByTimeAsync(100);
+    edit('rec1');
+    await vi.advanceTimersByTimeAsync(100);
+    cells.rec1 = 'https://a.com/2.png';
+    edit('rec1');
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(onBatch.mock.calls).toEqual([[['rec1']], [['rec1']]]);
+    watcher.stop();
+  });
+
+  it('retries records that did not finish with backoff and then gives up', async () => {
+    const { table, edit } = createWatchedTable({ rec1: 'https://a.com/1.png', rec2: 'https://a.com/2.png' });
+    const onBatch = vi.fn(async (recordIds: string[]) => recordIds.filter(recordId => recordId === 'rec2'));
+    const onLog = vi.fn();
+    const watcher = createRecordWatcher({ table, urlFieldIds: ['fldUrl'], onBatch, onLog, debounceDelay: 100 });
+
+    edit('rec1');
+    edit('rec2');
+    await vi.advanceTimersByTimeAsync(100);
+    expect(onBatch).toHaveBeenLastCalledWith(['rec1', 'rec2']);
+
+    // 第1、2、3次重试分别等待 200、400、800 毫秒（再加上合并变化的等待时间）
+    await vi.advanceTimersByTimeAsync(200 + 100);
+    await vi.advanceTimersByTimeAsync(400 + 100);
+    await vi.advanceTimersByTimeAsync(800 + 100);
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(onBatch.mock.calls.slice(1)).toEqual([[['rec1']], [['rec1']], [['rec1']]]);
+    expect(onLog).toHaveBeenCalledWith('warn', t('logWatchGaveUp', { count: 1, attempts: 4 }));
+    watcher.stop();
+  });
+
+  it('retries the whole batch when processing throws', async () => {
+    const { table, edit } = createWatchedTable({ rec1: 'https://a.com/1.png' });
+    const onBatch = vi.fn()
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockImplementation(async (recordIds: string[]) => recordIds);
+    const watcher = createRecordWatcher({ table, urlFieldIds: ['fldUrl'], onBatch, debounceDelay: 100 });
+
+    edit('rec1');
+    await vi.advanceTimersByTimeAsync(100);
+    await vi.advanceTimersByTimeAsync(200 + 100);
+
+    expect(onBatch).toHaveBeenCalledTimes(2);
+    watcher.stop();
+  });
+
+  it('reports unreadable records through the log callback', async () => {
+    const { table, edit } = createWatchedTable({});
+    const onLog = vi.fn();
+    const watcher = createRecordWatcher({ table, urlFieldIds: ['fldUrl'], onBatch: async () => [], onLog, debounceDelay: 100 });
+
+    edit('missing');
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(onLog).toHaveBeenCalledWith('warn', t('logWatchReadFailed', { recordId: 'missing', detail: 'Record not found: missing' }));
+    watcher.stop();
+  });
+
+  it('keeps the batch pending while another job is running', async () => {
+    const { table, edit } = createWatchedTable({ rec1: 'https://a.com/1.png' });
+    const onBatch = vi.fn()
+      .mockResolvedValueOnce(null)
+      .mockImplementation(async (recordIds: string[]) => recordIds);
+    const watcher = createRecordWatcher({ table, urlFieldIds: ['fldUrl'], onBatch, debounceDelay: 100 });
+
+    edit('rec1');
+    await vi.advanceTimersByTimeAsync(100);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(onBatch.mock.calls).toEqual([[['rec1']], [['rec1']]]);
+    watcher.stop();
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * 记录监听工具函数
+ * 监听数据表的记录新增和修改事件，URL字段内容变化后自动触发转换
+ */
+
+import { ITable } from '@lark-base-open/js-sdk';
+import { t } from 'i18next';
+
+// 最后一次变化之后等待的时间，连续粘贴或编辑时合并为一批处理
+const DEBOUNCE_DELAY = 2000;
+
+// 未完成的记录最多重试的次数，每次重试的等待时间翻倍
+const MAX_BATCH_RETRIES = 3;
+
+export interface RecordWatcherOptions {
+  table: ITable;
+  /** 需要监听的URL字段（多组映射时包含所有URL字段） */
+  urlFieldIds: string[];
+  /**
+   * 处理一批URL有变化的记录
+   * @returns 处理完成（成功或跳过）的记录ID，其余记录按退避间隔重试；返回null表示当前有其他任务在运行，这批记录稍后重试
+   */
+  onBatch: (recordIds: string[]) => Promise<string[] | null>;
+  onLog?: (level: 'info' | 'warn', message: string) => void;
+  debounceDelay?: number;
+}
+
+export interface RecordWatcher {
+  stop(): void;
+}
+
+/**
+ * 创建记录监听器
+ * 插件自己写入附件、状态和错误原因字段产生的修改事件会被忽略；
+ * 同时记录每条记录上次处理时的URL内容，内容未变化时不再处理（例如引用附件字段的公式URL字段被重新计算），避免循环触发
+ * @param options 监听配置
+ * @returns RecordWatcher
+ */
+export function createRecordWatcher(options: RecordWatcherOptions): RecordWatcher {
+  const { table, urlFieldIds, onBatch, onLog, debounceDelay = DEBOUNCE_DELAY } = options;
+  const pending = new Set<string>();
+  // 记录ID -> 上次处理完成时URL字段的内容
+  const lastSeen = new Map<string, string>();
+  // 记录ID -> 已重试的次数
+  const retries = new Map<string, number>();
+  const retryTimers = new Set<number>();
+  let timer: number | undefined;
+  let running = false;
+  let stopped = false;
+
+  const schedule = () => {
+    if (stopped) return;
+    window.clearTimeout(timer);
+    timer = window.setTimeout(flush, debounceDelay);
+  };
+
+  const readUrlText = async (recordId: string): Promise<string> => {
+    const texts = await Promise.all(urlFieldIds.map(fieldId => table.getCellString(fieldId, recordId)));
+    return texts.join('\n').trim();
+  };
+
+  // 未完成的记录按重试次数分组，等待 debounceDelay * 2^重试次数 后重新加入待处理队列
+  const retryLater = (recordIds: string[]) => {
+    const groups = new Map<number, string[]>();
+    const exhausted: string[] = [];
+    recordIds.forEach(recordId => {
+      const attempt = (retries.get(recordId) ?? 0) + 1;
+      if (attempt > MAX_BATCH_RETRIES) {
+        retries.delete(recordId);
+        exhausted.push(recordId);
+        return;
+      }
+      retries.set(recordId, attempt);
+      groups.set(attempt, [...(groups.get(attempt) || []), recordId]);
+    });
+    if (exhausted.length > 0) {
+      onLog?.('warn', t('logWatchGaveUp', { count: exhausted.length, attempts: MAX_BATCH_RETRIES + 1 }));
+    }
+    groups.forEach((ids, attempt) => {
+      const delay = debounceDelay * 2 ** attempt;
+      onLog?.('info', t('logWatchRetry', { count: ids.length, seconds: Math.round(delay / 1000) }));
+      const retryTimer = window.setTimeout(() => {
+        retryTimers.delete(retryTimer);
+        ids.forEach(recordId => pending.add(recordId));
+        schedule();
+      }, delay);
+      retryTimers.add(retryTimer);
+    });
+  };
+
+  const flush = async () => {
+    timer = undefined;
+    // 上一批仍在处理时，等它完成后再处理新的变化
+    if (running || stopped || pending.size === 0) return;
+    running = true;
+    const candidates = Array.from(pending);
+    pending.clear();
+
+    // 记录ID -> 本批读取到的URL内容，处理完成后才记为已处理
+    const texts = new Map<string, string>();
+    try {
+      for (const recordId of candidates) {
+        try {
+          const text = await readUrlText(recordId);
+          // 新增的空行和URL内容未变化的记录不处理
+          if (text && text !== lastSeen.get(recordId)) {
+            texts.set(recordId, text);
+          }
+        } catch (error: any) {
+          // 记录可能已被删除
+          onLog?.('warn', t('logWatchReadFailed', { recordId, detail: error?.message || String(error) }));
+        }
+      }
+
+      const changed = Array.from(texts.keys());
+      if (changed.length > 0 && !stopped) {
+        onLog?.('info', t('logWatchChanged', { count: changed.length }));
+        const done = await onBatch(changed);
+        if (!done) {
+          changed.forEach(recordId => pending.add(recordId));
+        } else {
+          done.forEach(recordId => {
+            lastSeen.set(recordId, texts.get(recordId) ?? '');
+            retries.delete(recordId);
+          });
+          retryLater(changed.filter(recordId => !done.includes(recordId)));
+        }
+      }
+    } catch (error: any) {
+      onLog?.('warn', t('logWatchFailed', { detail: error?.message || String(error) }));
+      if (!stopped) {
+        retryLater(Array.from(texts.keys()));
+      }
+    } finally {
+      running = false;
+      if (pending.size > 0) {
+        schedule();
+      }
+    }
+  };
+
+  const offAdd = table.onRecordAdd(({ data }) => {
+    data.forEach(recordId => {
+      pending.add(recordId);
+      retries.delete(recordId);
+    });
+    schedule();
+  });
+
+  const offModify = table.onRecordModify(({ data }) => {
+    // 只关心URL字段的修改，插件写入其他字段产生的事件直接忽略
+    if (!data.fieldIds.some(fieldId => urlFieldIds.includes(fieldId))) return;
+    // 用户修改了URL，重新计算重试次数
+    pending.add(data.recordId);
+    retries.delete(data.recordId);
+    schedule();
+  });
+
+  const offDelete = table.onRecordDelete(({ data }) => {
+    data.forEach(recordId => {
+      pending.delete(recordId);
+      lastSeen.delete(recordId);
+      retries.delete(recordId);
+    });
+  });
+
+  return {
+    stop() {
+      stopped = true;
+      window.clearTimeout(timer);
+      retryTimers.forEach(retryTimer => window.clearTimeout(retryTimer));
+      retryTimers.clear();
+      offAdd();
+      offModify();
+      offDelete();
+    },
+  };
+}
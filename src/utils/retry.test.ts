@@ -0,0 +1,110 @@
+import i18next from 'i18next';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import en from '../locales/en.json';
+import { CorsError, NetworkError, NotAFileError, UpstreamHttpError } from './errors';
+import { DEFAULT_RETRY_POLICY, getRetryDelay, isRetryableError, parseRetryAfter, RetryPolicy, withRetry } from './retry';
+
+const POLICY: RetryPolicy = { ...DEFAULT_RETRY_POLICY, maxAttempts: 3, baseDelay: 1000, maxDelay: 5000 };
+
+beforeAll(async () => {
+  await i18next.init({ lng: 'en', resources: { en: { translation: en } } });
+});
+
+describe('isRetryableError', () => {
+  it.each([
+    ['a configured HTTP status', new UpstreamHttpError(503, 'Service Unavailable'), true],
+    ['an HTTP status that is not configured', new UpstreamHttpError(404, 'Not Found'), false],
+    ['a request without any response', new NetworkError('Failed to fetch'), true],
+    ['a direct download blocked by CORS', new CorsError('Failed to fetch'), true],
+    ['a timeout', new DOMException('The operation was aborted due to timeout', 'TimeoutError'), true],
+    ['an SDK error about rate limits', new Error('Rate limit exceeded'), true],
+    ['a TypeError from a bug', new TypeError("Cannot read properties of undefined (reading 'token')"), false],
+    ['a page that is not a file', new NotAFileError(), false],
+  ])('handles %s', (_, error, expected) => {
+    expect(isRetryableError(error, POLICY)).toBe(expected);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2024-01-01T00:00:00Z');
+
+  it('parses delays in seconds', () => {
+    expect(parseRetryAfter(' 120 ', now)).toBe(120_000);
+  });
+
+  it('parses HTTP dates and never returns a negative delay', () => {
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:30 GMT', now)).toBe(30_000);
+    expect(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT', now)).toBe(0);
+  });
+
+  it('ignores missing or invalid values', () => {
+    expect(parseRetryAfter(null, now)).toBeNull();
+    expect(parseRetryAfter('soon', now)).toBeNull();
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('doubles the delay with jitter between half and the full delay', () => {
+    expect(getRetryDelay(1, POLICY, null, () => 0)).toBe(500);
+    expect(getRetryDelay(1, POLICY, null, () => 1)).toBe(1000);
+    expect(getRetryDelay(3, POLICY, null, () => 0.5)).toBe(3000);
+  });
+
+  it('caps the exponential delay and Retry-After at the maximum delay', () => {
+    expect(getRetryDelay(10, POLICY, null, () => 1)).toBe(5000);
+    expect(getRetryDelay(1, POLICY, 60_000)).toBe(5000);
+    expect(getRetryDelay(1, POLICY, 2000)).toBe(2000);
+  });
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', { setTimeout, clearTimeout });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('retries retryable errors until the operation succeeds', async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new UpstreamHttpError(503, 'Service Unavailable', 100))
+      .mockResolvedValue('ok');
+    const onRetry = vi.fn();
+
+    const result = withRetry(operation, { policy: POLICY, onRetry });
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(await result).toBe('ok');
+    expect(operation.mock.calls).toEqual([[1], [2]]);
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, maxAttempts: 3, delay: 100 }));
+  });
+
+  it('stops at the maximum number of attempts', async () => {
+    const error = new NetworkError('Failed to fetch');
+    const operation = vi.fn().mockRejectedValue(error);
+
+    const result = withRetry(operation, { policy: { ...POLICY, maxAttempts: 2 } });
+    const assertion = expect(result).rejects.toBe(error);
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('ends the wait as soon as the job is aborted', async () => {
+    const controller = new AbortController();
+    const operation = vi.fn().mockRejectedValue(new UpstreamHttpError(503, 'Service Unavailable', 5000));
+
+    const result = withRetry(operation, { policy: POLICY, signal: controller.signal });
+    const assertion = expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort();
+
+    await assertion;
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
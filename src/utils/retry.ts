@@ -0,0 +1,181 @@
+/**
+ * 重试工具函数
+ * 下载和上传遇到临时性错误（429、5xx、超时、网络中断）时，按指数退避加随机抖动自动重试，并遵循 Retry-After
+ */
+
+import { t } from 'i18next';
+import { CorsError, NetworkError } from './errors';
+
+export interface RetryPolicy {
+  /** 最大尝试次数（含第一次），1表示不重试 */
+  maxAttempts: number;
+  /** 第一次重试前的基础等待时间（毫秒），之后每次翻倍 */
+  baseDelay: number;
+  /** 单次等待的上限（毫秒），Retry-After 同样受此限制 */
+  maxDelay: number;
+  /** 需要重试的HTTP状态码 */
+  retryStatuses: number[];
+}
+
+/** 表单中的重试设置 */
+export interface RetrySettings {
+  retryMaxAttempts?: number;
+  retryBaseDelaySeconds?: number;
+  /** 需要重试的HTTP状态码，逗号或空格分隔 */
+  retryStatuses?: string;
+}
+
+export const DEFAULT_RETRY_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  retryStatuses: DEFAULT_RETRY_STATUSES,
+};
+
+// 飞书SDK等只提供错误信息的临时性错误（超时的 TimeoutError 也由此匹配）
+const TRANSIENT_ERROR_PATTERN = /timeout|timed out|network|econnreset|etimedout|socket hang up|rate limit|too many requests/i;
+
+export interface RetryInfo {
+  /** 刚刚失败的是第几次尝试（从1开始） */
+  attempt: number;
+  maxAttempts: number;
+  /** 下一次尝试前等待的毫秒数 */
+  delay: number;
+  error: any;
+}
+
+export interface RetryOptions {
+  policy: RetryPolicy;
+  /** 中止信号，中止后不再重试并立即结束等待 */
+  signal?: AbortSignal;
+  /** 每次决定重试前调用，用于记录日志 */
+  onRetry?: (info: RetryInfo) => void;
+}
+
+/**
+ * 根据表单设置构建重试策略
+ * @param settings 表单中的重试设置
+ * @returns RetryPolicy
+ */
+export function buildRetryPolicy(settings: RetrySettings): RetryPolicy {
+  const statuses = (settings.retryStatuses ?? '')
+    .split(/[\s,，]+/)
+    .map(value => Number(value))
+    .filter(status => Number.isInteger(status) && status >= 400 && status <= 599);
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    maxAttempts: Math.max(1, Math.floor(settings.retryMaxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts) || 1),
+    baseDelay: settings.retryBaseDelaySeconds
+      ? Math.max(0, settings.retryBaseDelaySeconds * 1000)
+      : DEFAULT_RETRY_POLICY.baseDelay,
+    retryStatuses: settings.retryStatuses?.trim() ? statuses : DEFAULT_RETRY_POLICY.retryStatuses,
+  };
+}
+
+/**
+ * 解析 Retry-After 头，支持秒数和HTTP日期两种格式
+ * @param value Retry-After 头
+ * @param now 当前时间戳
+ * @returns number | null 需要等待的毫秒数
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * 判断错误是否值得重试
+ * 带HTTP状态码的错误按状态码判断；没有收到响应的 NetworkError、CorsError 总是重试；
+ * 其他错误（包括代码缺陷导致的 TypeError）只根据错误信息判断
+ * @param error 错误
+ * @param policy 重试策略
+ * @returns boolean
+ */
+export function isRetryableError(error: any, policy: RetryPolicy): boolean {
+  if (!error) {
+    return false;
+  }
+  if (typeof error.status === 'number') {
+    return policy.retryStatuses.includes(error.status);
+  }
+  if (error instanceof NetworkError || error instanceof CorsError) {
+    return true;
+  }
+  return TRANSIENT_ERROR_PATTERN.test(error.message || String(error));
+}
+
+/**
+ * 计算下一次尝试前的等待时间
+ * 服务器返回 Retry-After 时使用该值，否则为 baseDelay × 2^(attempt-1) 的一半加上随机的另一半
+ * @param attempt 刚刚失败的是第几次尝试（从1开始）
+ * @param policy 重试策略
+ * @param retryAfter 服务器要求的等待毫秒数
+ * @param random 随机数函数
+ * @returns number 毫秒
+ */
+export function getRetryDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfter?: number | null,
+  random: () => number = Math.random
+): number {
+  if (typeof retryAfter === 'number') {
+    return Math.min(retryAfter, policy.maxDelay);
+  }
+  const delay = Math.min(policy.baseDelay * 2 ** (attempt - 1), policy.maxDelay);
+  return Math.round(delay / 2 + random() * (delay / 2));
+}
+
+/**
+ * 等待指定时间，中止时立即以 AbortError 结束
+ * @param ms 毫秒
+ * @param signal 中止信号
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException(t('cancelled'), 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      reject(new DOMException(t('cancelled'), 'AbortError'));
+    };
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 执行操作，遇到可重试的错误时按策略重试
+ * @param operation 操作，参数为当前是第几次尝试（从1开始）
+ * @param options 重试策略、中止信号和重试回调
+ * @returns Promise<T> 操作的结果；所有尝试都失败或遇到不可重试的错误时抛出最后一次的错误
+ */
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  const { policy, signal, onRetry } = options;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error: any) {
+      if (signal?.aborted || attempt >= policy.maxAttempts || !isRetryableError(error, policy)) {
+        throw error;
+      }
+      const delay = getRetryDelay(attempt, policy, error?.retryAfter);
+      onRetry?.({ attempt, maxAttempts: policy.maxAttempts, delay, error });
+      await sleep(delay, signal);
+    }
+  }
+}
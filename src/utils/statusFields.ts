@@ -0,0 +1,83 @@
+/**
+ * 状态字段工具函数
+ * 用于将每条记录的处理结果和错误原因写回数据表
+ */
+
+import { FieldType, IOpenCellValue, IOpenSegmentType, IRecordValue, ISingleSelectField, ITable } from '@lark-base-open/js-sdk';
+import { RecordStatus } from './jobStore';
+
+export const STATUS_VALUES: RecordStatus[] = ['success', 'failed', 'skipped'];
+
+export interface StatusFieldWriter {
+  /**
+   * 构建需要写入的字段值，没有配置状态字段和错误字段时返回null
+   * @param status 处理结果
+   * @param reason 失败或跳过的原因（成功时会清空错误字段）
+   */
+  buildRecordValue(status: RecordStatus, reason?: string): IRecordValue | null;
+}
+
+/**
+ * 将文本转换为Text字段的单元格值
+ * @param text 文本
+ * @returns IOpenCellValue
+ */
+function toTextCellValue(text: string | undefined): IOpenCellValue {
+  return text ? [{ type: IOpenSegmentType.Text, text }] : null;
+}
+
+/**
+ * 准备状态字段和错误字段的写入器
+ * 状态字段为单选字段时，会自动补齐缺少的 success/failed/skipped 选项
+ * @param table 数据表实例
+ * @param statusFieldId 状态字段ID（Text或SingleSelect，可选）
+ * @param errorFieldId 错误原因字段ID（Text，可选）
+ * @returns StatusFieldWriter
+ */
+export async function createStatusFieldWriter(
+  table: ITable,
+  statusFieldId?: string,
+  errorFieldId?: string
+): Promise<StatusFieldWriter> {
+  // 单选字段需要使用选项ID写入
+  let optionIds: Partial<Record<RecordStatus, string>> | null = null;
+
+  if (statusFieldId) {
+    const field = await table.getFieldById(statusFieldId);
+    if (await field.getType() === FieldType.SingleSelect) {
+      const selectField = field as ISingleSelectField;
+      let options = await selectField.getOptions();
+      const missing = STATUS_VALUES.filter(name => !options.some(option => option.name === name));
+      if (missing.length > 0) {
+        await selectField.addOptions(missing.map(name => ({ name })));
+        options = await selectField.getOptions();
+      }
+      optionIds = {};
+      for (const option of options) {
+        if ((STATUS_VALUES as string[]).includes(option.name)) {
+          optionIds[option.name as RecordStatus] = option.id;
+        }
+      }
+    }
+  }
+
+  return {
+    buildRecordValue(status, reason) {
+      if (!statusFieldId && !errorFieldId) {
+        return null;
+      }
+
+      const fields: IRecordValue['fields'] = {};
+      if (statusFieldId) {
+        const optionId = optionIds?.[status];
+        fields[statusFieldId] = optionIds
+          ? (optionId ? { id: optionId, text: status } : null)
+          : toTextCellValue(status);
+      }
+      if (errorFieldId) {
+        fields[errorFieldId] = toTextCellValue(reason);
+      }
+      return { fields };
+    },
+  };
+}
@@ -0,0 +1,111 @@
+import i18next, { t } from 'i18next';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import en from '../locales/en.json';
+import { createUploadCache, hashBlob, UploadItem } from './uploadCache';
+
+/**
+ * 创建待上传的文件项
+ * @param url 文件URL
+ * @param hash 内容哈希
+ */
+function createItem(url: string, hash: string | null): UploadItem {
+  const name = url.split('/').pop() || 'file';
+  return { url, hash, name, size: 4, type: 'image/png', file: new File(['data'], name, { type: 'image/png' }) };
+}
+
+/**
+ * 创建按上传顺序生成token的上传函数
+ */
+function createUploader() {
+  let count = 0;
+  return vi.fn(async (files: File[]) => files.map(() => `token-${++count}`));
+}
+
+beforeAll(async () => {
+  await i18next.init({ lng: 'en', resources: { en: { translation: en } } });
+});
+
+describe('hashBlob', () => {
+  it('returns the SHA-256 of the content as hex', async () => {
+    expect(await hashBlob(new Blob(['abc']))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
+
+describe('createUploadCache', () => {
+  it('uploads a URL or content that appears twice in one batch only once', async () => {
+    const cache = createUploadCache();
+    const uploader = createUploader();
+
+    const result = await cache.upload([
+      createItem('https://a.com/1.png', 'hash-1'),
+      createItem('https://a.com/1.png', null),
+      createItem('https://b.com/copy.png', 'hash-1'),
+    ], uploader);
+
+    expect(uploader).toHaveBeenCalledTimes(1);
+    expect(uploader.mock.calls[0][0]).toHaveLength(1);
+    expect(result).toEqual({ tokens: ['token-1', 'token-1', 'token-1'], reused: [false, true, true] });
+  });
+
+  it('reuses uploads by URL and content across batches', async () => {
+    const cache = createUploadCache();
+    const uploader = createUploader();
+    await cache.upload([createItem('https://a.com/1.png', 'hash-1')], uploader);
+
+    const result = await cache.upload([
+      { url: 'https://a.com/1.png', hash: 'hash-1', name: '1.png', size: 4, type: 'image/png' },
+      createItem('https://b.com/copy.png', 'hash-1'),
+    ], uploader);
+
+    expect(uploader).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({ tokens: ['token-1', 'token-1'], reused: [true, true] });
+    expect(cache.getByUrl('https://b.com/copy.png')).toMatchObject({ token: 'token-1', name: 'copy.png' });
+    expect(cache.getHashByToken('token-1')).toBe('hash-1');
+  });
+
+  it('shares one upload between workers uploading the same content', async () => {
+    const cache = createUploadCache();
+    let finish!: (tokens: string[]) => void;
+    const uploader = vi.fn(() => new Promise<string[]>(resolve => {
+      finish = resolve;
+    }));
+
+    const first = cache.upload([createItem('https://a.com/1.png', 'hash-1')], uploader);
+    const second = cache.upload([createItem('https://b.com/2.png', 'hash-1')], uploader);
+    finish(['token-1']);
+
+    expect(await first).toEqual({ tokens: ['token-1'], reused: [false] });
+    expect(await second).toEqual({ tokens: ['token-1'], reused: [true] });
+    expect(uploader).toHaveBeenCalledTimes(1);
+  });
+
+  it('forgets content hashes when the upload fails', async () => {
+    const cache = createUploadCache();
+    const uploader = vi.fn()
+      .mockRejectedValueOnce(new Error('upload failed'))
+      .mockResolvedValue(['token-2']);
+
+    await expect(cache.upload([createItem('https://a.com/1.png', 'hash-1')], uploader)).rejects.toThrow('upload failed');
+    const result = await cache.upload([createItem('https://b.com/2.png', 'hash-1')], uploader);
+
+    expect(uploader).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({ tokens: ['token-2'], reused: [false] });
+    expect(cache.getByUrl('https://a.com/1.png')).toBeUndefined();
+  });
+
+  it('fails when the uploader returns a different number of tokens', async () => {
+    const cache = createUploadCache();
+
+    await expect(cache.upload(
+      [createItem('https://a.com/1.png', 'hash-1'), createItem('https://a.com/2.png', 'hash-2')],
+      async () => ['token-1']
+    )).rejects.toThrow(t('errorUploadTokenCount', { expected: 2, actual: 1 }));
+  });
+
+  it('rejects items without a file whose URL is not cached', async () => {
+    const cache = createUploadCache();
+    const item = { url: 'https://a.com/1.png', hash: null, name: '1.png', size: 4, type: 'image/png' };
+
+    await expect(cache.upload([item], createUploader())).rejects.toThrow(t('errorUploadCacheMissing', { url: item.url }));
+  });
+});
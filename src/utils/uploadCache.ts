@@ -0,0 +1,150 @@
+/**
+ * 上传缓存工具函数
+ * 按URL和文件内容哈希复用已上传文件的token，相同的文件在一个任务中只上传一次
+ */
+
+import { t } from 'i18next';
+
+export interface CachedUpload {
+  token: string;
+  /** 文件内容的SHA-256（十六进制），无法计算时为null */
+  hash: string | null;
+  /** 原始文件名（应用文件名模板之前） */
+  name: string;
+  size: number;
+  type: string;
+}
+
+export interface UploadItem {
+  url: string;
+  hash: string | null;
+  name: string;
+  size: number;
+  type: string;
+  /** 需要上传的文件，URL已缓存时为空 */
+  file?: File;
+}
+
+export interface UploadCache {
+  /** 按URL获取已上传的文件 */
+  getByUrl(url: string): CachedUpload | undefined;
+  /** 按token获取文件内容哈希（仅限本任务上传的文件） */
+  getHashByToken(token: string): string | undefined;
+  /**
+   * 上传文件并返回与items顺序一致的token
+   * 已缓存的URL、已上传或正在上传的相同内容会直接复用token，其余文件批量上传
+   */
+  upload(items: UploadItem[], uploader: (files: File[]) => Promise<string[]>): Promise<{ tokens: string[]; reused: boolean[] }>;
+}
+
+/**
+ * 计算Blob内容的SHA-256哈希
+ * 非安全上下文中crypto.subtle不可用，此时返回null
+ * @param blob 文件Blob对象
+ * @returns Promise<string | null> 十六进制哈希
+ */
+export async function hashBlob(blob: Blob): Promise<string | null> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    return null;
+  }
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * 创建任务级的上传缓存
+ * @returns UploadCache
+ */
+export function createUploadCache(): UploadCache {
+  const byUrl = new Map<string, CachedUpload>();
+  // 正在上传或已上传的内容哈希 -> token，并发worker上传相同内容时共享同一个Promise
+  const tokenByHash = new Map<string, Promise<string>>();
+  const hashByToken = new Map<string, string>();
+
+  return {
+    getByUrl(url) {
+      return byUrl.get(url);
+    },
+
+    getHashByToken(token) {
+      return hashByToken.get(token);
+    },
+
+    async upload(items, uploader) {
+      const missing = items.find(item => !item.file && !byUrl.has(item.url));
+      if (missing) {
+        throw new Error(t('errorUploadCacheMissing', { url: missing.url }));
+      }
+
+      const pendingTokens: Promise<string>[] = [];
+      const reused: boolean[] = [];
+      const filesToUpload: File[] = [];
+      // 本批次中新上传的哈希，上传失败时需要从缓存中移除
+      const newHashes: string[] = [];
+      // 本批次中已加入上传的URL，同一URL出现多次时只上传一次
+      const tokenByBatchUrl = new Map<string, Promise<string>>();
+
+      let resolveBatch!: (tokens: string[]) => void;
+      let rejectBatch!: (error: unknown) => void;
+      const batch = new Promise<string[]>((resolve, reject) => {
+        resolveBatch = resolve;
+        rejectBatch = reject;
+      });
+
+      items.forEach(item => {
+        const cachedByUrl = byUrl.get(item.url);
+        const cachedByHash = item.hash ? tokenByHash.get(item.hash) : undefined;
+        const batchByUrl = tokenByBatchUrl.get(item.url);
+        if (cachedByUrl) {
+          pendingTokens.push(Promise.resolve(cachedByUrl.token));
+          reused.push(true);
+        } else if (batchByUrl) {
+          pendingTokens.push(batchByUrl);
+          reused.push(true);
+        } else if (cachedByHash) {
+          pendingTokens.push(cachedByHash);
+          reused.push(true);
+        } else {
+          const batchIndex = filesToUpload.length;
+          filesToUpload.push(item.file as File);
+          const tokenPromise = batch.then(tokens => tokens[batchIndex]);
+          tokenByBatchUrl.set(item.url, tokenPromise);
+          if (item.hash) {
+            tokenByHash.set(item.hash, tokenPromise);
+            newHashes.push(item.hash);
+          }
+          pendingTokens.push(tokenPromise);
+          reused.push(false);
+        }
+      });
+
+      // 避免没有等待者时出现未处理的Promise拒绝
+      batch.catch(() => undefined);
+
+      if (filesToUpload.length > 0) {
+        try {
+          const tokens = await uploader(filesToUpload);
+          if (!tokens || tokens.length !== filesToUpload.length) {
+            throw new Error(t('errorUploadTokenCount', { expected: filesToUpload.length, actual: tokens?.length || 0 }));
+          }
+          resolveBatch(tokens);
+        } catch (error) {
+          newHashes.forEach(hash => tokenByHash.delete(hash));
+          rejectBatch(error);
+        }
+      } else {
+        resolveBatch([]);
+      }
+
+      const tokens = await Promise.all(pendingTokens);
+      items.forEach((item, index) => {
+        const token = tokens[index];
+        byUrl.set(item.url, { token, hash: item.hash, name: item.name, size: item.size, type: item.type });
+        if (item.hash) {
+          hashByToken.set(token, item.hash);
+        }
+      });
+      return { tokens, reused };
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import { IOpenSegmentType } from '@lark-base-open/js-sdk';
+import { describe, expect, it } from 'vitest';
+import { extractUrlsFromCellValue, extractUrlsFromText } from './urlUtils';
+
+describe('extractUrlsFromText', () => {
+  it('splits on separators and strips trailing punctuation', () => {
+    expect(extractUrlsFromText('https://a.com/1.png，https://a.com/2.png; (https://a.com/3.png).'))
+      .toEqual(['https://a.com/1.png', 'https://a.com/2.png', 'https://a.com/3.png']);
+  });
+});
+
+describe('extractUrlsFromCellValue', () => {
+  it('keeps link segments intact', () => {
+    const value = [
+      { type: IOpenSegmentType.Url, text: 'cdn', link: 'https://cdn.example.com/x/w_100,h_100/a.jpg' },
+      { type: IOpenSegmentType.Url, text: 'file', link: ' https://host.example.com/file_(1).png ' },
+    ];
+    expect(extractUrlsFromCellValue(value)).toEqual([
+      'https://cdn.example.com/x/w_100,h_100/a.jpg',
+      'https://host.example.com/file_(1).png',
+    ]);
+  });
+
+  it('ignores links that are not http(s)', () => {
+    expect(extractUrlsFromCellValue([{ type: IOpenSegmentType.Url, text: 'mail', link: 'mailto:a@example.com' }]))
+      .toEqual([]);
+  });
+
+  it('extracts urls from plain text segments and dedupes', () => {
+    const value = [
+      { type: IOpenSegmentType.Text, text: 'https://a.com/1.png, https://a.com/2.png' },
+      { type: IOpenSegmentType.Url, text: 'dup', link: 'https://a.com/1.png' },
+    ];
+    expect(extractUrlsFromCellValue(value)).toEqual(['https://a.com/1.png', 'https://a.com/2.png']);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * URL工具函数
+ * 用于从单元格值中提取URL
+ */
+
+// 匹配http(s)链接，遇到空白、中英文逗号/分号、引号或尖括号时截断
+const URL_PATTERN = /https?:\/\/[^\s,，;；、"'<>]+/gi;
+
+// URL末尾常见的非URL标点（例如句号、右括号）
+const TRAILING_PUNCTUATION = /[.)\]}!?。）】]+$/;
+
+/**
+ * 从文本中提取所有http(s) URL
+ * 支持换行、空格、逗号、分号等分隔方式
+ * @param text 文本
+ * @returns string[] 按出现顺序排列的URL（未去重）
+ */
+export function extractUrlsFromText(text: string): string[] {
+  if (!text || typeof text !== 'string') {
+    return [];
+  }
+
+  const matches = text.match(URL_PATTERN) || [];
+  return matches
+    .map(match => match.replace(TRAILING_PUNCTUATION, ''))
+    .filter(Boolean);
+}
+
+interface CellSegment {
+  text: string;
+  /** 是否来自片段的link属性（完整的链接，不需要再从文本中提取） */
+  isLink: boolean;
+}
+
+/**
+ * 将单元格值转换为文本片段，并标记哪些片段是链接
+ * @param value 单元格值
+ * @returns CellSegment[]
+ */
+function getCellSegments(value: unknown): CellSegment[] {
+  if (value === null || value === undefined) {
+    return [];
+  }
+  if (typeof value === 'string') {
+    return [{ text: value, isLink: false }];
+  }
+  if (typeof value === 'number') {
+    return [{ text: String(value), isLink: false }];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(item => getCellSegments(item));
+  }
+  if (typeof value === 'object') {
+    const { link, text } = value as { link?: unknown; text?: unknown };
+    if (typeof link === 'string' && link.trim()) {
+      return [{ text: link, isLink: true }];
+    }
+    if (typeof text === 'string') {
+      return [{ text, isLink: false }];
+    }
+  }
+  return [];
+}
+
+/**
+ * 将单元格值转换为可能包含URL的文本片段
+ * Url字段返回ISegmentItem[]（优先使用link属性），Text字段返回string或ISegmentItem[]，
+ * Formula字段可能返回string、number、ISegment[]或number[]
+ * @param value 单元格值
+ * @returns string[] 文本片段
+ */
+export function getCellTextSegments(value: unknown): string[] {
+  return getCellSegments(value).map(segment => segment.text);
+}
+
+/**
+ * 从单元格值中提取所有URL，按原始顺序去重
+ * 链接片段按原样使用（其中的逗号、括号是URL的一部分），只有普通文本按分隔符拆分并去掉末尾标点
+ * @param value 单元格值
+ * @returns string[] URL列表
+ */
+export function extractUrlsFromCellValue(value: unknown): string[] {
+  const urls = getCellSegments(value).flatMap(segment => {
+    if (!segment.isLink) {
+      return extractUrlsFromText(segment.text);
+    }
+    const link = segment.text.trim();
+    return /^https?:\/\//i.test(link) ? [link] : [];
+  });
+  return Array.from(new Set(urls));
+}